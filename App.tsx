@@ -1,11 +1,21 @@
 
-import React, { useState, useCallback } from 'react';
-import { ArtStyle, RegenerationModel } from './types';
-import { regenerateImage, editImage, describeImage, translateText } from './services/geminiService';
-import { extractFrames } from './utils/videoProcessor';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { ArtStyle, RegenerationModel, ProviderId, GenerationSettings, OriginalFrame, RegeneratedFrame, ProjectData, ProjectSummary, RegenerationJob, ExtractionBackend, ExtractionMode, FrameMetadata, PreviewItem, CustomArtStyle, StyleChoice, StoredApiKey, UsageBudget, ApiKeyEncryption } from './types';
+import { getRequestsPerMinute, hasDeploymentApiKey, setRequestsPerMinute, testApiKey } from './services/geminiService';
+import { regenerateImage, getProvider, IMAGE_PROVIDERS, MAX_VARIATIONS, DEFAULT_GENERATION_SETTINGS } from './services/imageService';
+import {
+  createProject, loadProject, saveProject, listProjects, renameProject, duplicateProject, deleteProject,
+  getLastProjectId, setLastProjectId,
+} from './services/projectStore';
+import { extractFrames, MAX_WEBCODECS_FILE_SIZE } from './utils/videoProcessor';
+import { createJobQueue, mapWithConcurrency } from './utils/jobQueue';
+import { findDuplicateGroups, findNearDuplicate, hashImage } from './utils/perceptualHash';
+import { exportVideo, VideoExportOptions } from './utils/videoExporter';
+import { AnimationExportOptions, exportAnimation } from './utils/animationExporter';
 import Header from './components/Header';
 import UploadSection from './components/UploadSection';
 import Controls from './components/Controls';
+import GenerationSettingsPanel from './components/GenerationSettingsPanel';
 import Gallery from './components/Gallery';
 import Loader from './components/Loader';
 import ActionControls from './components/ActionControls';
@@ -13,21 +23,48 @@ import RegenActionControls from './components/RegenActionControls';
 import ImagePreviewModal from './components/ImagePreviewModal';
 import VideoPreview from './components/VideoPreview';
 import ProcessingControls from './components/ProcessingControls';
+import RecentProjects from './components/RecentProjects';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import QueuePanel from './components/QueuePanel';
+import DuplicateGroups from './components/DuplicateGroups';
+import ExportVideoDialog from './components/ExportVideoDialog';
+import ExportAnimationDialog from './components/ExportAnimationDialog';
+import StyleLibraryDialog from './components/StyleLibraryDialog';
+import PromptEditorDialog, { PromptUpdate } from './components/PromptEditorDialog';
+import UsageDashboard from './components/UsageDashboard';
+import ApiKeyManager from './components/ApiKeyManager';
+import ApiKeyDialog from './components/ApiKeyDialog';
+import { parseDataUrl, getImageExtension } from './utils/dataUrl';
+import { compositeMaskedEdit } from './utils/maskCompositor';
+import { addVersions, createVersion, getVersionHistory, redoVersion, selectVersion, undoVersion } from './utils/frameVersions';
+import {
+  encryptApiKeys, forgetEncryptedApiKeys, getActiveApiKeyId, getApiKeyEncryption, isApiKeyErrorMessage, loadApiKeys,
+  lockApiKeys, migrateLegacyApiKey, removeApiKeyEncryption, saveApiKeys, setActiveApiKeyId, unlockApiKeys,
+} from './services/apiKeyStore';
+import { clearUsage, estimateRegenerationCost, getSpend, getUsageEntries, isBudgetExceeded, loadBudget, saveBudget, subscribeToUsage } from './services/usageLedger';
+import { createStyleReference, exportStyleLibrary, loadCustomStyles, parseStyleLibrary, saveCustomStyles } from './services/styleLibrary';
 
 declare const JSZip: any;
 
-const API_CALL_DELAY_MS = 1500; // 1.5 second delay between API calls to avoid rate limiting
+const AUTOSAVE_DELAY_MS = 500;
+const CONCURRENCY_KEY = 'regeneration_concurrency';
+const MAX_CONCURRENCY = 8;
+// Each reference is sent with every Gemini request, so keep requests a reasonable size.
+const MAX_STYLE_REFERENCES = 4;
+// Frames checked per second of video. Scene detection samples more densely so quick cuts aren't skipped.
+const SIMILARITY_SAMPLE_FPS = 2;
+const SCENE_SAMPLE_FPS = 8;
+const HAS_DEPLOYMENT_API_KEY = hasDeploymentApiKey();
 
-interface RegeneratedFrame {
-  src: string;
-  prompt: string;
-}
-
-interface OriginalFrame {
-  src: string;
-  prompt?: string;
-  translatedPrompt?: string;
-}
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
 
 export default function App() {
   const [videoFile, setVideoFile] = useState<File | null>(null);
@@ -35,28 +72,258 @@ export default function App() {
   const [originalFrames, setOriginalFrames] = useState<OriginalFrame[]>([]);
   const [regeneratedFrames, setRegeneratedFrames] = useState<Array<RegeneratedFrame | null>>([]);
   const [selectedStyle, setSelectedStyle] = useState<ArtStyle>(ArtStyle.CARTOON);
+  const [customStyles, setCustomStyles] = useState<CustomArtStyle[]>(loadCustomStyles);
+  const [customStyleId, setCustomStyleId] = useState<string | null>(null);
+  const [isStyleLibraryOpen, setIsStyleLibraryOpen] = useState<boolean>(false);
+  const [styleReferences, setStyleReferences] = useState<string[]>([]);
+  const [usePreviousFrame, setUsePreviousFrame] = useState<boolean>(false);
+  const [anchorFrameIndex, setAnchorFrameIndex] = useState<number | null>(null);
+  const [variationCount, setVariationCount] = useState<number>(1);
+  // A custom style that has since been deleted falls back to the built-in selection.
+  const activeStyle: StyleChoice = customStyles.find(style => style.id === customStyleId) ?? selectedStyle;
   const [regenerationModel, setRegenerationModel] = useState<RegenerationModel>('gemini');
+  const [provider, setProvider] = useState<ProviderId>('google');
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [progressMessage, setProgressMessage] = useState<string>('');
   
   const [blurThreshold, setBlurThreshold] = useState<number>(100);
   const [similarityThreshold, setSimilarityThreshold] = useState<number>(10);
+  const [extractionBackend, setExtractionBackend] = useState<ExtractionBackend>('webcodecs');
+  const [extractionMode, setExtractionMode] = useState<ExtractionMode>('similarity');
+  const [sceneCutThreshold, setSceneCutThreshold] = useState<number>(30);
+  const [showDuplicates, setShowDuplicates] = useState<boolean>(false);
+
+  const [requestsPerMinute, setRequestsPerMinuteState] = useState<Record<string, number>>(getRequestsPerMinute);
+  const [concurrency, setConcurrency] = useState<number>(() =>
+    Math.min(MAX_CONCURRENCY, Math.max(1, Number(localStorage.getItem(CONCURRENCY_KEY)) || 1))
+  );
 
   const [selectedFrames, setSelectedFrames] = useState<Set<number>>(new Set());
   const [selectedRegenFrames, setSelectedRegenFrames] = useState<Set<number>>(new Set());
   const [activeSelection, setActiveSelection] = useState<'original' | 'regenerated' | null>(null);
 
-  const [previewImages, setPreviewImages] = useState<{ items: Array<{ src: string; prompt?: string; translatedPrompt?: string; }>; startIndex: number; isEditable: boolean; } | null>(null);
+  const [previewImages, setPreviewImages] = useState<{ items: PreviewItem[]; startIndex: number; isEditable: boolean; } | null>(null);
+  const [seekRequest, setSeekRequest] = useState<{ time: number } | null>(null);
+  const [isVideoExportOpen, setIsVideoExportOpen] = useState<boolean>(false);
+  const [isAnimationExportOpen, setIsAnimationExportOpen] = useState<boolean>(false);
+  const [isPromptEditorOpen, setIsPromptEditorOpen] = useState<boolean>(false);
+  const [isUsageOpen, setIsUsageOpen] = useState<boolean>(false);
+  const [usageEntries, setUsageEntries] = useState(getUsageEntries);
+  const [usageBudget, setUsageBudget] = useState<UsageBudget | null>(loadBudget);
+  const [apiKeyEncryption, setApiKeyEncryption] = useState<ApiKeyEncryption>(getApiKeyEncryption);
+  // Encrypted keys are locked in every new session, so the passphrase is asked for up front.
+  const [isApiKeyDialogOpen, setIsApiKeyDialogOpen] = useState<boolean>(() => getApiKeyEncryption() === 'locked');
+  // Adopts a key from earlier versions once, before the keys and the selected key are first read.
+  const [apiKeys, setApiKeys] = useState<StoredApiKey[]>(() => {
+    migrateLegacyApiKey();
+    return loadApiKeys();
+  });
+  const [activeApiKeyId, setActiveApiKeyIdState] = useState<string | null>(getActiveApiKeyId);
+  const hasApiKey = HAS_DEPLOYMENT_API_KEY || apiKeys.some(entry => entry.id === activeApiKeyId);
   const [aspectRatio, setAspectRatio] = useState<number | null>(null);
 
-  const handleVideoUpload = useCallback((newVideoFile: File) => {
+  // The queue outlives individual renders, so jobs read the latest frames through a ref.
+  const originalFramesRef = useRef(originalFrames);
+  originalFramesRef.current = originalFrames;
+  // Jobs also write results here directly, so a job that starts before the next render
+  // can already see the previous frame's result.
+  const regeneratedFramesRef = useRef(regeneratedFrames);
+  regeneratedFramesRef.current = regeneratedFrames;
+
+  const runRegenerationJob = useCallback(async (job: RegenerationJob, signal: AbortSignal) => {
+    const { frameIndex, provider: jobProvider, model, style, styleReferences: jobStyleReferences, usePreviousFrame: jobUsePreviousFrame, anchorImage, variations, generation, aspectRatio: jobAspectRatio, projectId } = job;
+    const frame = originalFramesRef.current[frameIndex];
+    if (!frame) {
+      throw new Error(`Frame ${frameIndex + 1} no longer exists.`);
+    }
+    // Checked per job, so a batch stops partway once the budget runs out.
+    if (getProvider(jobProvider).requiresApiKey && isBudgetExceeded()) {
+      throw new Error('Your usage budget is used up. Raise it under Usage & Budget, then retry.');
+    }
+
+    const image = parseDataUrl(frame.src);
+    let promptForImagen: string | undefined;
+
+    // If using Imagen, we need a text prompt first. A prompt the user has edited is used as is.
+    if (model === 'imagen') {
+        promptForImagen = frame.prompt;
+        if (!promptForImagen) {
+            const description = await getProvider(jobProvider).describe(image, generation, projectId);
+            if (signal.aborted) return;
+            const newPrompt = `Image Description:\n\n${description}`;
+            setOriginalFrames(prevFrames => prevFrames.map((f, i) =>
+                i === frameIndex ? { ...f, prompt: newPrompt, promptEdited: false, translatedPrompt: undefined } : f
+            ));
+            promptForImagen = newPrompt;
+        }
+    }
+
+    // The queue holds this job until the previous frame's job has finished, so its result is current.
+    const previousSrc = jobUsePreviousFrame && frameIndex > 0 ? regeneratedFramesRef.current[frameIndex - 1]?.src : undefined;
+    const previousFrame = previousSrc ? parseDataUrl(previousSrc) : undefined;
+
+    const newFrameData = await regenerateImage({
+        provider: jobProvider,
+        model,
+        style,
+        aspectRatio: jobAspectRatio,
+        image,
+        prompt: promptForImagen,
+        styleReferences: jobStyleReferences,
+        sequenceContext: { previousFrame, anchorFrame: anchorImage },
+        variations,
+        settings: generation,
+        projectId,
+    });
+    if (signal.aborted) return;
+
+    const newVersions = newFrameData.images.map(image => createVersion({
+        src: `data:${image.mimeType};base64,${image.data}`,
+        prompt: newFrameData.prompt,
+        parentId: null,
+        kind: 'regenerate',
+        model,
+        provider: jobProvider,
+        generation,
+        style: typeof style === 'string' ? style : style.name,
+    }));
+    const placeFrame = (prevFrames: Array<RegeneratedFrame | null>) => {
+        const newRegenFrames = [...prevFrames];
+        const targetLength = Math.max(originalFramesRef.current.length, frameIndex + 1);
+        while (newRegenFrames.length < targetLength) {
+            newRegenFrames.push(null);
+        }
+        // Earlier versions stay in the history; the first new variation becomes current.
+        newRegenFrames[frameIndex] = addVersions(newRegenFrames[frameIndex], newVersions);
+        return newRegenFrames;
+    };
+    regeneratedFramesRef.current = placeFrame(regeneratedFramesRef.current);
+    setRegeneratedFrames(placeFrame);
+  }, []);
+
+  const runRegenerationJobRef = useRef(runRegenerationJob);
+  runRegenerationJobRef.current = runRegenerationJob;
+
+  const [regenerationQueue] = useState(() => createJobQueue<RegenerationJob>({
+    runJob: (job, signal) => runRegenerationJobRef.current(job, signal),
+    isBlockedError: (error) => error instanceof Error && error.message.includes('blocked'),
+    concurrency,
+    // In a consistent sequence, a frame waits for the frame before it, and is held back if that frame
+    // isn't regenerated, rather than running against an old result or none.
+    getDependency: (job, jobs) => job.usePreviousFrame
+        ? [...jobs].reverse().find(other => other.payload.frameIndex === job.frameIndex - 1)
+        : undefined,
+    describeJob: (job) => `frame ${job.frameIndex + 1}`,
+  }));
+
+  const [queueSnapshot, setQueueSnapshot] = useState(regenerationQueue.getSnapshot);
+  useEffect(() => regenerationQueue.subscribe(setQueueSnapshot), [regenerationQueue]);
+  useEffect(() => subscribeToUsage(setUsageEntries), []);
+
+  const hasUnfinishedJobs = queueSnapshot.jobs.some(job => job.status === 'pending' || job.status === 'running');
+  // A paused batch doesn't hold up the rest of the UI; only jobs that are running or about to run do.
+  const isQueueActive = queueSnapshot.jobs.some(job => job.status === 'running' || (job.status === 'pending' && !queueSnapshot.isPaused));
+  const isBusy = isLoading || isQueueActive;
+
+  /** Drops every job, including any waiting in a paused batch, before the frames they refer to are replaced. */
+  const discardQueuedJobs = useCallback(() => {
+    regenerationQueue.cancel();
+    regenerationQueue.clearFinished();
+  }, [regenerationQueue]);
+
+  /** Builds a preview item for a regenerated frame, pairing it with its source frame for compare mode. */
+  const toRegeneratedPreviewItem = (frame: RegeneratedFrame, index: number): PreviewItem => ({
+    src: frame.src,
+    prompt: frame.prompt,
+    originalSrc: originalFrames[index]?.src,
+    history: getVersionHistory(frame),
+  });
+
+  const getRegeneratedPreviewItems = (indices: number[]): PreviewItem[] => indices.flatMap(index => {
+    const frame = regeneratedFrames[index];
+    return frame ? [toRegeneratedPreviewItem(frame, index)] : [];
+  });
+
+  // Once a batch drains, preview whatever it produced, as the old blocking loop did.
+  const hadUnfinishedJobsRef = useRef(false);
+  useEffect(() => {
+    if (hadUnfinishedJobsRef.current && !hasUnfinishedJobs) {
+      const regeneratedItems = getRegeneratedPreviewItems(queueSnapshot.jobs
+          .filter(job => job.status === 'done')
+          .map(job => job.payload.frameIndex));
+
+      if (regeneratedItems.length > 0) {
+          setPreviewImages({ items: regeneratedItems, startIndex: 0, isEditable: true });
+      }
+    }
+    hadUnfinishedJobsRef.current = hasUnfinishedJobs;
+  }, [hasUnfinishedJobs]);
+
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const pendingSaveRef = useRef<ProjectData | null>(null);
+
+  const refreshRecentProjects = useCallback(async () => {
+    try {
+      setRecentProjects(await listProjects());
+    } catch (error) {
+      console.error("Failed to list saved projects:", error);
+    }
+  }, []);
+
+  // Writes out any autosave still waiting on its debounce, so switching projects never drops edits.
+  const flushProjectSave = useCallback(async () => {
+    const data = pendingSaveRef.current;
+    if (!data) return;
+    pendingSaveRef.current = null;
+    try {
+      const summary = await saveProject(data);
+      setRecentProjects(prev => [summary, ...prev.filter(p => p.id !== summary.id)]);
+    } catch (error) {
+      console.error("Failed to save project:", error);
+    }
+  }, []);
+
+  const handleVideoUpload = useCallback(async (newVideoFile: File) => {
+    await flushProjectSave();
+
+    let projectId: string | null = null;
+    try {
+      const project = await createProject(newVideoFile, {
+        selectedStyle,
+        customStyleId,
+        regenerationModel,
+        provider,
+        generation: generationSettings,
+        blurThreshold,
+        similarityThreshold,
+        extractionBackend,
+        extractionMode,
+        sceneCutThreshold,
+        usePreviousFrame,
+        anchorFrameIndex: null,
+        variationCount,
+      });
+      projectId = project.id;
+    } catch (error) {
+      // The app still works without persistence; the work just won't survive a reload.
+      console.error("Failed to create a saved project for the video:", error);
+    }
+
+    setCurrentProjectId(projectId);
+    setLastProjectId(projectId);
     setVideoFile(newVideoFile);
     setOriginalFrames([]);
+    setShowDuplicates(false);
+    discardQueuedJobs();
     setRegeneratedFrames([]);
+    setAnchorFrameIndex(null);
     setSelectedFrames(new Set());
     setSelectedRegenFrames(new Set());
     setActiveSelection(null);
     setAspectRatio(null);
+    setStyleReferences([]);
     
     if (videoSrc) {
         URL.revokeObjectURL(videoSrc);
@@ -64,15 +331,205 @@ export default function App() {
     
     const newVideoSrc = URL.createObjectURL(newVideoFile);
     setVideoSrc(newVideoSrc);
-  }, [videoSrc]);
+    refreshRecentProjects();
+  }, [videoSrc, selectedStyle, customStyleId, usePreviousFrame, variationCount, regenerationModel, provider, generationSettings, blurThreshold, similarityThreshold, extractionBackend, extractionMode, sceneCutThreshold, flushProjectSave, refreshRecentProjects]);
+
+  const handleOpenProject = useCallback(async (id: string) => {
+    setIsLoading(true);
+    setProgressMessage('Opening project...');
+    try {
+      await flushProjectSave();
+
+      const project = await loadProject(id);
+      if (!project) {
+        setLastProjectId(null);
+        alert('This project could not be found. It may have been deleted.');
+        await refreshRecentProjects();
+        return;
+      }
+      const { data, videoFile: storedVideo } = project;
+
+      setCurrentProjectId(id);
+      setLastProjectId(id);
+      setVideoFile(storedVideo);
+      setOriginalFrames(data.originalFrames);
+      setShowDuplicates(false);
+      discardQueuedJobs();
+      setRegeneratedFrames(data.regeneratedFrames);
+      setSelectedStyle(data.settings.selectedStyle);
+      setCustomStyleId(data.settings.customStyleId ?? null);
+      setRegenerationModel(data.settings.regenerationModel);
+      setProvider(data.settings.provider ?? 'google');
+      setGenerationSettings({ ...DEFAULT_GENERATION_SETTINGS, ...data.settings.generation });
+      setBlurThreshold(data.settings.blurThreshold);
+      setSimilarityThreshold(data.settings.similarityThreshold);
+      // Projects saved before these settings existed fall back to the defaults.
+      setExtractionBackend(data.settings.extractionBackend ?? 'webcodecs');
+      setExtractionMode(data.settings.extractionMode ?? 'similarity');
+      setSceneCutThreshold(data.settings.sceneCutThreshold ?? 30);
+      setUsePreviousFrame(data.settings.usePreviousFrame ?? false);
+      setAnchorFrameIndex(data.settings.anchorFrameIndex ?? null);
+      setVariationCount(data.settings.variationCount ?? 1);
+      setAspectRatio(data.aspectRatio);
+      setStyleReferences(data.styleReferences ?? []);
+      setSelectedFrames(new Set());
+      setSelectedRegenFrames(new Set());
+      setActiveSelection(null);
+
+      setVideoSrc(prevSrc => {
+        if (prevSrc) URL.revokeObjectURL(prevSrc);
+        return URL.createObjectURL(storedVideo);
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to open project. ${errorMessage}`);
+    } finally {
+      setIsLoading(false);
+      setProgressMessage('');
+    }
+  }, [refreshRecentProjects, flushProjectSave]);
+
+  const clearWorkspace = useCallback(() => {
+    setCurrentProjectId(null);
+    setLastProjectId(null);
+    setVideoFile(null);
+    setVideoSrc(prevSrc => {
+      if (prevSrc) URL.revokeObjectURL(prevSrc);
+      return null;
+    });
+    setOriginalFrames([]);
+    setShowDuplicates(false);
+    discardQueuedJobs();
+    setRegeneratedFrames([]);
+    setAnchorFrameIndex(null);
+    setSelectedFrames(new Set());
+    setSelectedRegenFrames(new Set());
+    setActiveSelection(null);
+    setAspectRatio(null);
+    setStyleReferences([]);
+  }, []);
+
+  const handleNewProject = useCallback(async () => {
+    await flushProjectSave();
+    clearWorkspace();
+    refreshRecentProjects();
+  }, [flushProjectSave, clearWorkspace, refreshRecentProjects]);
+
+  const handleRenameProject = useCallback(async (id: string) => {
+    const project = recentProjects.find(p => p.id === id);
+    const name = prompt('Enter a new name for this project:', project?.name ?? '')?.trim();
+    if (!name) return;
+    try {
+      const summary = await renameProject(id, name);
+      setRecentProjects(prev => prev.map(p => (p.id === id ? summary : p)));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to rename project. ${errorMessage}`);
+    }
+  }, [recentProjects]);
+
+  const handleDuplicateProject = useCallback(async (id: string) => {
+    const project = recentProjects.find(p => p.id === id);
+    setIsLoading(true);
+    setProgressMessage('Duplicating project...');
+    try {
+      await flushProjectSave();
+      const copy = await duplicateProject(id, `${project?.name ?? 'Untitled'} (copy)`);
+      await refreshRecentProjects();
+      await handleOpenProject(copy.id);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to duplicate project. ${errorMessage}`);
+    } finally {
+      setIsLoading(false);
+      setProgressMessage('');
+    }
+  }, [recentProjects, flushProjectSave, refreshRecentProjects, handleOpenProject]);
+
+  const handleDeleteProject = useCallback(async (id: string) => {
+    const project = recentProjects.find(p => p.id === id);
+    if (!confirm(`Delete "${project?.name ?? 'this project'}"? Its frames and regenerations will be lost.`)) return;
+    try {
+      if (id === currentProjectId) {
+        pendingSaveRef.current = null;
+        clearWorkspace();
+      }
+      await deleteProject(id);
+      await refreshRecentProjects();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to delete project. ${errorMessage}`);
+    }
+  }, [recentProjects, currentProjectId, clearWorkspace, refreshRecentProjects]);
+
+  // Restore the project that was open before the page was reloaded.
+  useEffect(() => {
+    const lastProjectId = getLastProjectId();
+    if (lastProjectId) {
+      handleOpenProject(lastProjectId);
+    }
+    refreshRecentProjects();
+  }, []);
+
+  // Autosave the open project shortly after any change to its frames or settings.
+  useEffect(() => {
+    if (!currentProjectId) return;
+    pendingSaveRef.current = {
+      id: currentProjectId,
+      aspectRatio,
+      originalFrames,
+      regeneratedFrames,
+      styleReferences,
+      settings: { selectedStyle, customStyleId, regenerationModel, provider, generation: generationSettings, blurThreshold, similarityThreshold, extractionBackend, extractionMode, sceneCutThreshold, usePreviousFrame, anchorFrameIndex, variationCount },
+    };
+    const timeoutId = setTimeout(flushProjectSave, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [currentProjectId, aspectRatio, originalFrames, regeneratedFrames, styleReferences, selectedStyle, customStyleId, regenerationModel, provider, generationSettings, blurThreshold, similarityThreshold, extractionBackend, extractionMode, sceneCutThreshold, usePreviousFrame, anchorFrameIndex, variationCount, flushProjectSave]);
+
+  // Frames from older projects have no perceptual hash yet; compute them in the background.
+  useEffect(() => {
+    const unhashed = originalFrames.filter(frame => !frame.hash);
+    if (unhashed.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(unhashed.map(async frame => [frame.src, await hashImage(frame.src)] as const))
+      .then(entries => {
+        if (cancelled) return;
+        const hashes = new Map(entries);
+        setOriginalFrames(prevFrames => prevFrames.map(frame => frame.hash ? frame : { ...frame, hash: hashes.get(frame.src) }));
+      })
+      .catch(error => console.error("Failed to hash frames:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [originalFrames]);
+
+  const duplicateGroups = useMemo(
+    () => findDuplicateGroups(originalFrames.map(frame => frame.hash)),
+    [originalFrames]
+  );
+
+  const handleManualFrameExtract = useCallback(async (frameData: string, metadata: FrameMetadata) => {
+    let hash: string | undefined;
+    try {
+      hash = await hashImage(frameData);
+    } catch (error) {
+      console.error("Failed to hash the captured frame:", error);
+    }
+
+    if (hash) {
+      const match = findNearDuplicate(hash, originalFramesRef.current.map(frame => frame.hash));
+      if (match !== -1 && !confirm(`This frame looks like frame ${match + 1}. Add it anyway?`)) {
+        return;
+      }
+    }
 
-  const handleManualFrameExtract = useCallback((frameData: string) => {
     setOriginalFrames(prevFrames => {
         // Prevent adding the same frame multiple times
         if (prevFrames.some(f => f.src === frameData)) {
             return prevFrames;
         }
-        return [...prevFrames, { src: frameData }];
+        return [...prevFrames, { ...metadata, src: frameData, hash }];
     });
   }, []);
   
@@ -81,23 +538,33 @@ export default function App() {
       alert('Please upload a video first.');
       return;
     }
+    if (extractionBackend === 'webcodecs' && videoFile.size > MAX_WEBCODECS_FILE_SIZE) {
+      const sizeMb = Math.round(videoFile.size / 1024 / 1024);
+      const limitMb = Math.round(MAX_WEBCODECS_FILE_SIZE / 1024 / 1024);
+      alert(`This video is ${sizeMb} MB. Frame-accurate extraction reads the whole file into memory and is limited to ${limitMb} MB, so frames will be extracted by seeking instead. Timestamps may snap to nearby keyframes.`);
+    }
     setIsLoading(true);
-    setProgressMessage('Analyzing video and extracting distinct frames...');
+    setProgressMessage(extractionMode === 'scenes'
+      ? 'Detecting scene cuts and picking the sharpest frame of each shot...'
+      : 'Analyzing video and extracting distinct frames...');
     setOriginalFrames([]);
+    setShowDuplicates(false);
+    discardQueuedJobs();
     setRegeneratedFrames([]);
+    setAnchorFrameIndex(null);
 
     try {
       const { frames, aspectRatio: videoAspectRatio } = await extractFrames(
         videoFile,
-        2, // frames per second to check
+        extractionMode === 'scenes' ? SCENE_SAMPLE_FPS : SIMILARITY_SAMPLE_FPS,
         ({ current, total, accepted }) => {
           const percentage = total > 0 ? Math.round((current / total) * 100) : 0;
           setProgressMessage(`Analyzing video... ${percentage}% (${accepted} frames found)`);
         },
-        { blurThreshold, similarityThreshold }
+        { mode: extractionMode, blurThreshold, similarityThreshold, sceneCutThreshold, backend: extractionBackend }
       );
       
-      setOriginalFrames(frames.map(src => ({ src })));
+      setOriginalFrames(frames);
       setAspectRatio(videoAspectRatio);
       setProgressMessage(frames.length > 0 ? `Successfully extracted ${frames.length} frames!` : 'No unique frames found with current settings.');
       await new Promise(resolve => setTimeout(resolve, 2000));
@@ -108,7 +575,150 @@ export default function App() {
       setIsLoading(false);
       setProgressMessage('');
     }
-  }, [videoFile, blurThreshold, similarityThreshold]);
+  }, [videoFile, blurThreshold, similarityThreshold, sceneCutThreshold, extractionMode, extractionBackend]);
+
+  const handleConcurrencyChange = useCallback((limit: number) => {
+    setConcurrency(limit);
+    localStorage.setItem(CONCURRENCY_KEY, String(limit));
+    regenerationQueue.setConcurrency(limit);
+  }, [regenerationQueue]);
+
+  const handleRequestsPerMinuteChange = useCallback((model: string, limit: number) => {
+    if (!Number.isFinite(limit) || limit < 1) return;
+    setRequestsPerMinute(model, limit);
+    setRequestsPerMinuteState(getRequestsPerMinute());
+  }, []);
+
+  const handleApiKeysChange = useCallback(async (keys: StoredApiKey[]) => {
+    setApiKeys(keys);
+    try {
+      await saveApiKeys(keys);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to save your API keys. ${errorMessage}`);
+    }
+  }, []);
+
+  /** Re-reads the keys after they are unlocked, locked, encrypted or decrypted. */
+  const refreshApiKeys = useCallback(() => {
+    setApiKeys(loadApiKeys());
+    setApiKeyEncryption(getApiKeyEncryption());
+    setActiveApiKeyIdState(getActiveApiKeyId());
+  }, []);
+
+  const handleUnlockApiKeys = useCallback(async (passphrase: string) => {
+    await unlockApiKeys(passphrase);
+    refreshApiKeys();
+  }, [refreshApiKeys]);
+
+  const handleEncryptApiKeys = useCallback(async (passphrase: string) => {
+    await encryptApiKeys(passphrase);
+    refreshApiKeys();
+  }, [refreshApiKeys]);
+
+  const handleRemoveApiKeyEncryption = useCallback(() => {
+    removeApiKeyEncryption();
+    refreshApiKeys();
+  }, [refreshApiKeys]);
+
+  const handleLockApiKeys = useCallback(() => {
+    lockApiKeys();
+    refreshApiKeys();
+  }, [refreshApiKeys]);
+
+  const handleForgetApiKeys = useCallback(() => {
+    forgetEncryptedApiKeys();
+    refreshApiKeys();
+  }, [refreshApiKeys]);
+
+  const handleSelectApiKey = useCallback((id: string | null) => {
+    setActiveApiKeyId(id);
+    setActiveApiKeyIdState(id);
+  }, []);
+
+  /**
+   * Shows an error, offering to open the API key settings when the key is the problem.
+   * @param message The message to show.
+   */
+  const showError = useCallback((message: string) => {
+    if (!isApiKeyErrorMessage(message)) {
+      alert(message);
+    } else if (confirm(`${message}\n\nOpen the API key settings now?`)) {
+      setIsApiKeyDialogOpen(true);
+    }
+  }, []);
+
+  const handleBudgetChange = useCallback((budget: UsageBudget | null) => {
+    saveBudget(budget);
+    setUsageBudget(budget);
+  }, []);
+
+  const handleClearUsage = useCallback(() => {
+    if (confirm('Clear the whole usage history? Spend already counted toward your budget will be forgotten.')) {
+      clearUsage();
+    }
+  }, []);
+
+  const estimatedCost = useMemo(() => {
+    // References and sequence context are only sent with Gemini requests.
+    const contextImages = (usePreviousFrame ? 1 : 0) + (anchorFrameIndex !== null && regeneratedFrames[anchorFrameIndex] ? 1 : 0);
+    return estimateRegenerationCost({
+      model: regenerationModel,
+      settings: generationSettings,
+      frameCount: originalFrames.length,
+      undescribedCount: originalFrames.filter(frame => !frame.prompt).length,
+      variations: variationCount,
+      extraImages: regenerationModel === 'gemini' ? styleReferences.length + contextImages : 0,
+      maxImagesPerRequest: getProvider(provider).maxImagesPerRequest,
+    });
+  }, [originalFrames, regeneratedFrames, regenerationModel, generationSettings, variationCount, styleReferences, usePreviousFrame, anchorFrameIndex, provider]);
+
+  const handleStyleChange = useCallback((style: ArtStyle) => {
+    setSelectedStyle(style);
+    setCustomStyleId(null);
+  }, []);
+
+  const handleAddStyleReferences = useCallback(async (files: File[]) => {
+    const available = MAX_STYLE_REFERENCES - styleReferences.length;
+    if (files.length > available) {
+      alert(`You can use up to ${MAX_STYLE_REFERENCES} reference images. Only the first ${Math.max(0, available)} will be added.`);
+    }
+    try {
+      const references = await Promise.all(files.slice(0, Math.max(0, available)).map(createStyleReference));
+      setStyleReferences(prev => [...prev, ...references].slice(0, MAX_STYLE_REFERENCES));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to add reference images. ${errorMessage}`);
+    }
+  }, [styleReferences]);
+
+  const handleRemoveStyleReference = useCallback((index: number) => {
+    setStyleReferences(prev => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const handleCustomStylesChange = useCallback((styles: CustomArtStyle[]) => {
+    try {
+      saveCustomStyles(styles);
+      setCustomStyles(styles);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to save your styles. ${errorMessage}`);
+    }
+  }, []);
+
+  const handleImportStyles = useCallback(async (file: File) => {
+    try {
+      const imported = parseStyleLibrary(await file.text());
+      handleCustomStylesChange([...customStyles, ...imported]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to import styles. ${errorMessage}`);
+    }
+  }, [customStyles, handleCustomStylesChange]);
+
+  const handleExportStyles = useCallback(() => {
+    downloadBlob(new Blob([exportStyleLibrary(customStyles)], { type: 'application/json' }), 'art_styles.json');
+  }, [customStyles]);
 
   const handleFrameSelect = useCallback((index: number) => {
     setSelectedRegenFrames(new Set());
@@ -176,11 +786,19 @@ export default function App() {
         : [];
     
     setOriginalFrames(newOriginals);
+    discardQueuedJobs();
     setRegeneratedFrames(newRegenerated);
     setSelectedFrames(new Set());
     setActiveSelection(null);
   }, [originalFrames, regeneratedFrames, selectedFrames]);
 
+  const handleSelectDuplicateExtras = useCallback(() => {
+    setSelectedRegenFrames(new Set());
+    const extras = duplicateGroups.flatMap(group => group.slice(1));
+    setSelectedFrames(new Set(extras));
+    setActiveSelection(extras.length > 0 ? 'original' : null);
+  }, [duplicateGroups]);
+
   const handleDeleteRegenerated = useCallback(() => {
     if (selectedRegenFrames.size === 0) return;
     const newRegenerated = [...regeneratedFrames];
@@ -193,7 +811,7 @@ export default function App() {
   }, [regeneratedFrames, selectedRegenFrames]);
 
 
-  const handleRegenerate = useCallback(async (indicesToProcess?: number[]) => {
+  const handleRegenerate = useCallback((indicesToProcess?: number[]) => {
     if (originalFrames.length === 0 || !aspectRatio) {
       alert('Please upload a video and extract frames first.');
       return;
@@ -202,128 +820,143 @@ export default function App() {
     const indices = indicesToProcess ?? originalFrames.map((_, i) => i);
     if (indices.length === 0) return;
 
-    setIsLoading(true);
+    if (getProvider(provider).requiresApiKey && !hasApiKey) {
+      showError(apiKeyEncryption === 'locked'
+        ? 'Your saved API keys are locked. Enter your passphrase in the API key settings to unlock them.'
+        : 'Gemini API key is not set. Add a key before regenerating frames.');
+      return;
+    }
 
-    let newRegenFrames = [...regeneratedFrames];
-    if (newRegenFrames.length < originalFrames.length) {
-        newRegenFrames.length = originalFrames.length;
-        newRegenFrames.fill(null, regeneratedFrames.length);
+    if (getProvider(provider).requiresApiKey && isBudgetExceeded()) {
+      alert('Your usage budget is used up, so no new jobs can start. Raise or remove it under Usage & Budget.');
+      return;
     }
-    let newOriginals = [...originalFrames]; // For storing new prompts for Imagen
 
-    try {
-      for (let i = 0; i < indices.length; i++) {
-        const frameIndex = indices[i];
-        const progressIndicator = `(${i + 1} of ${indices.length})`;
-        
-        const base64Data = newOriginals[frameIndex].src.split(',')[1];
-        let promptForImagen: string | undefined;
-
-        // If using Imagen, we need a text prompt first.
-        if (regenerationModel === 'imagen') {
-            let existingPrompt = newOriginals[frameIndex].prompt;
-            if (!existingPrompt) {
-                setProgressMessage(`Describing frame ${frameIndex + 1} ${progressIndicator} for Imagen...`);
-                const description = await describeImage(base64Data);
-                existingPrompt = `Image Description:\n\n${description}`;
-                newOriginals[frameIndex] = { ...newOriginals[frameIndex], prompt: existingPrompt, translatedPrompt: undefined };
-                setOriginalFrames([...newOriginals]);
-            }
-            promptForImagen = existingPrompt;
-        }
+    // Imagen generates from text alone, so references only go with Gemini jobs.
+    const referenceData = regenerationModel === 'gemini' ? styleReferences.map(src => src.split(',')[1]) : [];
+    const anchorFrame = regenerationModel === 'gemini' && anchorFrameIndex !== null ? regeneratedFrames[anchorFrameIndex] : null;
 
-        setProgressMessage(`Re-imagining frame ${frameIndex + 1} ${progressIndicator} with ${regenerationModel}...`);
-        
-        const newFrameData = await regenerateImage({
-            model: regenerationModel,
-            style: selectedStyle,
-            aspectRatio,
-            base64Data,
-            prompt: promptForImagen,
-        });
+    regenerationQueue.clearFinished();
+    regenerationQueue.enqueue(indices.map(frameIndex => ({
+        frameIndex,
+        provider,
+        model: regenerationModel,
+        style: activeStyle,
+        styleReferences: referenceData,
+        usePreviousFrame: regenerationModel === 'gemini' && usePreviousFrame,
+        // The anchor is not shown when regenerating the anchor frame itself.
+        anchorImage: anchorFrame && frameIndex !== anchorFrameIndex ? parseDataUrl(anchorFrame.src) : undefined,
+        variations: variationCount,
+        generation: generationSettings,
+        aspectRatio,
+        projectId: currentProjectId,
+    })));
 
-        const newFrameSrc = `data:image/jpeg;base64,${newFrameData.image}`;
-        newRegenFrames[frameIndex] = { src: newFrameSrc, prompt: newFrameData.prompt };
+    setSelectedFrames(new Set());
+    setSelectedRegenFrames(new Set());
+    setActiveSelection(null);
+  }, [originalFrames, regeneratedFrames, activeStyle, styleReferences, usePreviousFrame, anchorFrameIndex, variationCount, aspectRatio, regenerationModel, provider, generationSettings, currentProjectId, regenerationQueue, hasApiKey, apiKeyEncryption, showError]);
 
-        setRegeneratedFrames([...newRegenFrames]);
+  /**
+   * Updates a regenerated frame and refreshes its entry in the open preview.
+   * The change is applied to the latest frames, so results the queue stored meanwhile are kept.
+   * @param frameIndex The frame's index.
+   * @param change Computes the updated frame.
+   * @param previousSrc The image the preview showed for the frame.
+   */
+  const updateRegeneratedFrame = (frameIndex: number, change: (frame: RegeneratedFrame) => RegeneratedFrame, previousSrc: string) => {
+    const frame = regeneratedFramesRef.current[frameIndex];
+    if (!frame) return;
+    const newFrame = change(frame);
+    if (newFrame === frame) return;
 
-        if (i < indices.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, API_CALL_DELAY_MS));
-        }
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      alert(`An error occurred during regeneration. ${errorMessage}`);
-    } finally {
-      setIsLoading(false);
-      setProgressMessage('');
-      
-      const finalFrames = [...newRegenFrames]; 
-      const regeneratedIndices = indicesToProcess ?? originalFrames.map((_, i) => i);
-      
-      if (regeneratedIndices.length > 0) {
-          const regeneratedItems = regeneratedIndices
-              .map(index => finalFrames[index])
-              .filter((item): item is RegeneratedFrame => !!item);
-          
-          if (regeneratedItems.length > 0) {
-              setPreviewImages({ items: regeneratedItems, startIndex: 0, isEditable: true });
-          }
-      }
+    const placeFrame = (prevFrames: Array<RegeneratedFrame | null>) => {
+      const newRegenFrames = [...prevFrames];
+      newRegenFrames[frameIndex] = newFrame;
+      return newRegenFrames;
+    };
+    // Queued jobs read the ref, so they see the change before the next render.
+    regeneratedFramesRef.current = placeFrame(regeneratedFramesRef.current);
+    setRegeneratedFrames(placeFrame);
 
-      setSelectedFrames(new Set());
-      setSelectedRegenFrames(new Set());
-      setActiveSelection(null);
+    setPreviewImages(prevPreview => prevPreview && {
+      ...prevPreview,
+      items: prevPreview.items.map(item => item.src === previousSrc ? { ...item, ...toRegeneratedPreviewItem(newFrame, frameIndex) } : item),
+    });
+  };
+
+  /**
+   * Applies a history change to the regenerated frame currently showing the given image.
+   * @param currentSrc The image shown in the preview.
+   * @param change Computes the updated frame.
+   */
+  const changeFrameVersion = (currentSrc: string, change: (frame: RegeneratedFrame) => RegeneratedFrame) => {
+    const frameIndex = regeneratedFramesRef.current.findIndex(frame => frame?.src === currentSrc);
+    if (frameIndex !== -1) {
+      updateRegeneratedFrame(frameIndex, change, currentSrc);
     }
-  }, [originalFrames, regeneratedFrames, selectedStyle, aspectRatio, regenerationModel]);
+  };
 
-  const handleEditImage = async (currentSrc: string, prompt: string) => {
-    const imageIndexInRegenFrames = regeneratedFrames.findIndex(frame => frame?.src === currentSrc);
-    if (imageIndexInRegenFrames === -1) {
+  const handleSelectVersion = (currentSrc: string, versionId: string) => changeFrameVersion(currentSrc, frame => selectVersion(frame, versionId));
+  const handleUndoVersion = (currentSrc: string) => changeFrameVersion(currentSrc, undoVersion);
+  const handleRedoVersion = (currentSrc: string) => changeFrameVersion(currentSrc, redoVersion);
+
+  const handleEditImage = async (currentSrc: string, prompt: string, mask?: string) => {
+    const imageIndexInRegenFrames = regeneratedFramesRef.current.findIndex(frame => frame?.src === currentSrc);
+    const editedFrame = regeneratedFramesRef.current[imageIndexInRegenFrames];
+    if (!editedFrame) {
       alert("An error occurred: Could not find the source image to edit.");
       return;
     }
+    const parentId = getVersionHistory(editedFrame).currentVersionId || null;
 
     try {
-      const originalBase64 = regeneratedFrames[imageIndexInRegenFrames]!.src.split(',')[1];
-      const { image: newBase64, prompt: newPrompt } = await editImage(originalBase64, prompt);
-      const newSrc = `data:image/jpeg;base64,${newBase64}`;
+      const { image: newBase64, mimeType, prompt: newPrompt } = await getProvider(provider).edit({
+        image: parseDataUrl(currentSrc),
+        prompt,
+        mask: mask ? parseDataUrl(mask).data : undefined,
+        settings: generationSettings,
+        projectId: currentProjectId,
+      });
+      const editedSrc = `data:${mimeType};base64,${newBase64}`;
+      // Only the masked pixels may change, so merge the edit back into the current image.
+      const newSrc = mask ? await compositeMaskedEdit(currentSrc, editedSrc, mask) : editedSrc;
       
-      const newRegeneratedFrames = [...regeneratedFrames];
-      newRegeneratedFrames[imageIndexInRegenFrames] = { src: newSrc, prompt: newPrompt };
-      setRegeneratedFrames(newRegeneratedFrames);
-
-      if (previewImages) {
-        const newPreviewItems = previewImages.items.map(item => 
-            item.src === currentSrc 
-            ? { src: newSrc, prompt: newPrompt } 
-            : item
-        );
-        setPreviewImages({ ...previewImages, items: newPreviewItems });
-      }
+      // The edit becomes a new version branching from the one edited, so it can be undone.
+      // It is added to the frame as it is now, in case the queue regenerated it meanwhile.
+      const editVersion = createVersion({
+        src: newSrc,
+        prompt: newPrompt,
+        parentId,
+        kind: 'edit',
+        // Gemini edits always run on the image model; the mock provider has no model to record.
+        model: provider === 'mock' ? undefined : 'gemini',
+        provider,
+        generation: generationSettings,
+      });
+      updateRegeneratedFrame(imageIndexInRegenFrames, frame => addVersions(frame, [editVersion]), currentSrc);
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      alert(`Failed to edit image. ${errorMessage}`);
+      showError(`Failed to edit image. ${errorMessage}`);
       throw error;
     }
   };
 
   const handleDescribeImage = async (currentSrc: string) => {
     try {
-      const base64Data = currentSrc.split(',')[1];
-      const description = await describeImage(base64Data);
+      const description = await getProvider(provider).describe(parseDataUrl(currentSrc), generationSettings, currentProjectId);
       const fullPrompt = `Image Description:\n\n${description}`;
 
       const newOriginalFrames = originalFrames.map(frame => 
-        frame.src === currentSrc ? { ...frame, prompt: fullPrompt, translatedPrompt: undefined } : frame
+        frame.src === currentSrc ? { ...frame, prompt: fullPrompt, promptEdited: false, translatedPrompt: undefined } : frame
       );
       setOriginalFrames(newOriginalFrames);
       
       if (previewImages) {
         const newPreviewItems = previewImages.items.map(item =>
           item.src === currentSrc
-            ? { ...item, prompt: fullPrompt, translatedPrompt: undefined }
+            ? { ...item, prompt: fullPrompt, promptEdited: false, translatedPrompt: undefined }
             : item
         );
         setPreviewImages({ ...previewImages, items: newPreviewItems });
@@ -331,11 +964,50 @@ export default function App() {
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      alert(`Failed to describe image. ${errorMessage}`);
+      showError(`Failed to describe image. ${errorMessage}`);
       throw error;
     }
   };
 
+  /**
+   * Saves hand-edited prompts for the next Imagen run. An empty prompt clears it,
+   * so the frame is described again.
+   * @param updates The new prompt for each changed frame.
+   */
+  const handleUpdatePrompts = (updates: PromptUpdate[]) => {
+    const promptByIndex = new Map(updates.map(update => [update.frameIndex, update.prompt]));
+    const applyPrompt = <T extends { prompt?: string; promptEdited?: boolean; translatedPrompt?: string }>(frame: T, prompt: string): T =>
+      prompt ? { ...frame, prompt, promptEdited: true, translatedPrompt: undefined } : { ...frame, prompt: undefined, promptEdited: false, translatedPrompt: undefined };
+
+    setOriginalFrames(prevFrames => prevFrames.map((frame, index) => {
+      const prompt = promptByIndex.get(index);
+      return prompt === undefined ? frame : applyPrompt(frame, prompt);
+    }));
+
+    if (previewImages) {
+      const promptBySrc = new Map(updates.map(update => [originalFrames[update.frameIndex]?.src, update.prompt]));
+      const newPreviewItems = previewImages.items.map(item => {
+        const prompt = promptBySrc.get(item.src);
+        return prompt === undefined ? item : applyPrompt(item, prompt);
+      });
+      setPreviewImages({ ...previewImages, items: newPreviewItems });
+    }
+  };
+
+  const handleUpdatePrompt = (currentSrc: string, prompt: string) => {
+    const frameIndex = originalFrames.findIndex(f => f.src === currentSrc);
+    if (frameIndex === -1) {
+        alert("An error occurred: Could not find the source image to update its prompt.");
+        return;
+    }
+    handleUpdatePrompts([{ frameIndex, prompt: prompt.trim() }]);
+  };
+
+  const handleSavePromptEdits = (updates: PromptUpdate[]) => {
+    handleUpdatePrompts(updates);
+    setIsPromptEditorOpen(false);
+  };
+
   const handleTranslatePrompt = async (currentSrc: string) => {
     const frameIndex = originalFrames.findIndex(f => f.src === currentSrc);
     if (frameIndex === -1) {
@@ -350,7 +1022,7 @@ export default function App() {
     }
     
     try {
-        const translation = await translateText(originalPrompt, 'Indonesian');
+        const translation = await getProvider(provider).translate(originalPrompt, 'Indonesian', generationSettings, currentProjectId);
 
         const newOriginalFrames = [...originalFrames];
         newOriginalFrames[frameIndex] = { ...newOriginalFrames[frameIndex], translatedPrompt: translation };
@@ -367,7 +1039,7 @@ export default function App() {
 
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        alert(`Failed to translate prompt. ${errorMessage}`);
+        showError(`Failed to translate prompt. ${errorMessage}`);
         throw error;
     }
   };
@@ -390,34 +1062,30 @@ export default function App() {
     }
     
     let newOriginals = [...originalFrames];
+    let completedCount = 0;
+    setProgressMessage(`Describing ${indicesToProcess.length} frame(s)...`);
     
     try {
-        for (let i = 0; i < indicesToProcess.length; i++) {
-            const frameIndex = indicesToProcess[i];
+        await mapWithConcurrency(indicesToProcess, concurrency, async (frameIndex) => {
             const frame = newOriginals[frameIndex];
-
-            setProgressMessage(`Describing frame ${frameIndex + 1} (${i + 1} of ${indicesToProcess.length})...`);
+            const description = await getProvider(provider).describe(parseDataUrl(frame.src), generationSettings, currentProjectId);
             
-            const base64Data = frame.src.split(',')[1];
-            const description = await describeImage(base64Data);
-            
-            newOriginals[frameIndex] = { ...frame, prompt: `Image Description:\n\n${description}`, translatedPrompt: undefined };
+            newOriginals[frameIndex] = { ...frame, prompt: `Image Description:\n\n${description}`, promptEdited: false, translatedPrompt: undefined };
             setOriginalFrames([...newOriginals]);
 
-            if (i < indicesToProcess.length - 1) {
-                await new Promise(resolve => setTimeout(resolve, API_CALL_DELAY_MS));
-            }
-        }
+            completedCount++;
+            setProgressMessage(`Describing frames... (${completedCount} of ${indicesToProcess.length})`);
+        });
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        alert(`An error occurred during description. ${errorMessage}`);
+        showError(`An error occurred during description. ${errorMessage}`);
     } finally {
         setIsLoading(false);
         setProgressMessage('');
         setSelectedFrames(new Set());
         setActiveSelection(null);
     }
-  }, [originalFrames, selectedFrames]);
+  }, [originalFrames, selectedFrames, concurrency, provider, generationSettings, currentProjectId]);
 
 
   const handleFramePreview = (src: string, gallery: 'original' | 'regenerated') => {
@@ -432,7 +1100,7 @@ export default function App() {
             });
         }
     } else { // regenerated
-        const validItems = regeneratedFrames.filter((f): f is RegeneratedFrame => !!f);
+        const validItems = getRegeneratedPreviewItems(regeneratedFrames.map((_, index) => index));
         const startIndex = validItems.findIndex(item => item.src === src);
         if (startIndex !== -1) {
             setPreviewImages({
@@ -454,15 +1122,12 @@ export default function App() {
   
   const handlePreviewSelectedRegenerated = useCallback(() => {
     if (selectedRegenFrames.size === 0) return;
-    const selectedItems = Array.from(selectedRegenFrames)
-        .sort((a, b) => a - b)
-        .map(index => regeneratedFrames[index])
-        .filter((item): item is RegeneratedFrame => !!item);
+    const selectedItems = getRegeneratedPreviewItems(regeneratedFrames.flatMap((_, index) => selectedRegenFrames.has(index) ? [index] : []));
 
     if (selectedItems.length > 0) {
       setPreviewImages({ items: selectedItems, startIndex: 0, isEditable: true });
     }
-  }, [selectedRegenFrames, regeneratedFrames]);
+  }, [selectedRegenFrames, regeneratedFrames, originalFrames]);
   
   const handleDownloadSelectedOriginal = async () => {
     if (selectedFrames.size === 0) return;
@@ -520,7 +1185,7 @@ export default function App() {
             const frameData = regeneratedFrames[frameIndex]?.src;
             if (frameData) {
                 const base64 = frameData.split(',')[1];
-                const fileName = `regenerated_frame_${String(frameIndex + 1).padStart(4, '0')}.jpg`;
+                const fileName = `regenerated_frame_${String(frameIndex + 1).padStart(4, '0')}.${getImageExtension(frameData)}`;
                 zip.file(fileName, base64, { base64: true });
             }
         }
@@ -547,6 +1212,60 @@ export default function App() {
   };
 
 
+  const getSelectedRegeneratedForExport = () => regeneratedFrames.flatMap((frame, index) =>
+    frame && selectedRegenFrames.has(index) ? [{ src: frame.src, timestamp: originalFrames[index]?.timestamp }] : []
+  );
+
+  const handleExportVideo = async (options: VideoExportOptions) => {
+    setIsVideoExportOpen(false);
+    const frames = getSelectedRegeneratedForExport();
+    if (frames.length === 0) return;
+
+    setIsLoading(true);
+    setProgressMessage('Recording video...');
+    try {
+        const video = await exportVideo(frames, videoFile, options, (fraction) => {
+            setProgressMessage(`Recording video... ${Math.round(fraction * 100)}%`);
+        });
+        downloadBlob(video, `regenerated_frames.${options.format}`);
+    } catch (error) {
+        console.error("Error exporting video:", error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        alert(`Failed to export video: ${errorMessage}`);
+    } finally {
+        setIsLoading(false);
+        setProgressMessage('');
+    }
+  };
+
+  const handleExportAnimation = async (options: AnimationExportOptions) => {
+    setIsAnimationExportOpen(false);
+    const frames = getSelectedRegeneratedForExport();
+    if (frames.length === 0) return;
+
+    setIsLoading(true);
+    setProgressMessage('Preparing animation...');
+    try {
+        const { blob, width, height, withinBudget } = await exportAnimation(frames, options, setProgressMessage);
+        downloadBlob(blob, `regenerated_frames.${options.format === 'gif' ? 'gif' : 'png'}`);
+        if (!withinBudget) {
+            alert(`The animation is ${(blob.size / 1024 / 1024).toFixed(1)} MB at ${width}×${height}, which is still over the size budget. Try fewer frames or colours.`);
+        }
+    } catch (error) {
+        console.error("Error exporting animation:", error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        alert(`Failed to export animation: ${errorMessage}`);
+    } finally {
+        setIsLoading(false);
+        setProgressMessage('');
+    }
+  };
+
+  const handleSeekToFrame = useCallback((time: number) => {
+    setPreviewImages(null);
+    setSeekRequest({ time });
+  }, []);
+
   const handleClosePreview = () => {
     setPreviewImages(null);
   };
@@ -557,21 +1276,42 @@ export default function App() {
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 font-sans pb-24 relative">
       {isLoading && <Loader message={progressMessage} />}
+      <ApiKeyManager onChangeApiKey={() => setIsApiKeyDialogOpen(true)} hasApiKey={hasApiKey} />
       <main className="container mx-auto px-4 py-8">
         <Header />
 
         <div className="max-w-4xl mx-auto bg-gray-800/50 rounded-2xl shadow-2xl backdrop-blur-sm p-6 md:p-8 space-y-8">
+          {recentProjects.length > 0 && (
+            <ProjectSwitcher
+                projects={recentProjects}
+                currentProjectId={currentProjectId}
+                onSwitchProject={handleOpenProject}
+                onNewProject={handleNewProject}
+                onRenameProject={handleRenameProject}
+                onDuplicateProject={handleDuplicateProject}
+                onDeleteProject={handleDeleteProject}
+                disabled={isBusy}
+            />
+          )}
           {!videoSrc ? (
-            <UploadSection onVideoUpload={handleVideoUpload} disabled={isLoading} />
+            <>
+                <UploadSection onVideoUpload={handleVideoUpload} disabled={isBusy} />
+                <RecentProjects
+                    projects={recentProjects}
+                    onOpenProject={handleOpenProject}
+                    disabled={isBusy}
+                />
+            </>
           ) : (
             <>
                 <VideoPreview 
                     src={videoSrc}
                     onFrameExtracted={handleManualFrameExtract}
+                    seekRequest={seekRequest}
                     onAutoExtract={handleAutoExtract}
                     onVideoLoaded={setAspectRatio}
                     onVideoChange={handleVideoUpload}
-                    disabled={isLoading}
+                    disabled={isBusy}
                 />
                 <div className="w-full h-px bg-gray-700"></div>
                 <ProcessingControls
@@ -579,8 +1319,14 @@ export default function App() {
                     onBlurChange={setBlurThreshold}
                     similarityThreshold={similarityThreshold}
                     onSimilarityChange={setSimilarityThreshold}
+                    extractionMode={extractionMode}
+                    onExtractionModeChange={setExtractionMode}
+                    sceneCutThreshold={sceneCutThreshold}
+                    onSceneCutChange={setSceneCutThreshold}
+                    extractionBackend={extractionBackend}
+                    onExtractionBackendChange={setExtractionBackend}
                     onReExtract={handleAutoExtract}
-                    disabled={isLoading}
+                    disabled={isBusy}
                 />
             </>
           )}
@@ -588,24 +1334,96 @@ export default function App() {
           {originalFrames.length > 0 && (
             <>
               <div className="w-full h-px bg-gray-700"></div>
-              <Gallery 
-                title="Original Frames" 
-                frames={originalFrames.map(f => f.src)} 
-                selectedFrames={selectedFrames}
-                onFrameSelect={handleFrameSelect}
-                onFramePreview={(src) => handleFramePreview(src, 'original')}
-                aspectRatio={aspectRatio}
-                onSelectAll={handleSelectAllOriginal}
-                isAllSelected={originalFrames.length > 0 && selectedFrames.size === originalFrames.length}
-              />
+              {showDuplicates ? (
+                <DuplicateGroups
+                  groups={duplicateGroups}
+                  frames={originalFrames.map(f => f.src)}
+                  selectedFrames={selectedFrames}
+                  onFrameSelect={handleFrameSelect}
+                  onSelectExtras={handleSelectDuplicateExtras}
+                  onClose={() => setShowDuplicates(false)}
+                  aspectRatio={aspectRatio}
+                />
+              ) : (
+                <Gallery 
+                  title="Original Frames" 
+                  frames={originalFrames.map(f => f.src)} 
+                  metadata={originalFrames}
+                  onSeek={handleSeekToFrame}
+                  selectedFrames={selectedFrames}
+                  onFrameSelect={handleFrameSelect}
+                  onFramePreview={(src) => handleFramePreview(src, 'original')}
+                  aspectRatio={aspectRatio}
+                  onSelectAll={handleSelectAllOriginal}
+                  isAllSelected={originalFrames.length > 0 && selectedFrames.size === originalFrames.length}
+                  actions={duplicateGroups.length > 0 && (
+                    <button
+                      onClick={() => setShowDuplicates(true)}
+                      className="px-3 py-1 text-sm font-medium text-purple-300 bg-gray-700/60 rounded-md hover:bg-gray-600/60 transition-colors focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      Show Duplicates ({duplicateGroups.length})
+                    </button>
+                  )}
+                />
+              )}
               <div className="w-full h-px bg-gray-700"></div>
               <Controls 
                 selectedStyle={selectedStyle}
-                onStyleChange={setSelectedStyle}
+                onStyleChange={handleStyleChange}
+                customStyles={customStyles}
+                selectedCustomStyleId={customStyleId}
+                onCustomStyleChange={setCustomStyleId}
+                onManageStyles={() => setIsStyleLibraryOpen(true)}
+                styleReferences={styleReferences}
+                maxStyleReferences={MAX_STYLE_REFERENCES}
+                onAddStyleReferences={handleAddStyleReferences}
+                onRemoveStyleReference={handleRemoveStyleReference}
+                usePreviousFrame={usePreviousFrame}
+                onUsePreviousFrameChange={setUsePreviousFrame}
+                anchorFrameIndex={anchorFrameIndex !== null && regeneratedFrames[anchorFrameIndex] ? anchorFrameIndex : null}
+                anchorCandidates={regeneratedFrames.flatMap((frame, index) => frame ? [{ index, src: frame.src }] : [])}
+                onAnchorFrameChange={setAnchorFrameIndex}
+                variationCount={variationCount}
+                maxVariations={MAX_VARIATIONS}
+                onVariationCountChange={setVariationCount}
                 onRegenerate={() => handleRegenerate()}
+                estimatedCost={getProvider(provider).requiresApiKey ? estimatedCost : null}
+                budgetRemaining={usageBudget ? usageBudget.limit - getSpend(usageEntries, usageBudget.period) : null}
+                onOpenUsage={() => setIsUsageOpen(true)}
                 regenerationModel={regenerationModel}
                 onModelChange={setRegenerationModel}
-                disabled={isLoading}
+                provider={provider}
+                providers={IMAGE_PROVIDERS}
+                onProviderChange={setProvider}
+                requestsPerMinute={requestsPerMinute}
+                onRequestsPerMinuteChange={handleRequestsPerMinuteChange}
+                concurrency={concurrency}
+                maxConcurrency={MAX_CONCURRENCY}
+                onConcurrencyChange={handleConcurrencyChange}
+                disabled={isBusy}
+              />
+              <GenerationSettingsPanel
+                settings={generationSettings}
+                models={getProvider(provider).models}
+                onChange={setGenerationSettings}
+                disabled={isBusy}
+              />
+            </>
+          )}
+
+          {queueSnapshot.jobs.length > 0 && (
+            <>
+              <div className="w-full h-px bg-gray-700"></div>
+              <QueuePanel
+                jobs={queueSnapshot.jobs}
+                isPaused={queueSnapshot.isPaused}
+                onPause={regenerationQueue.pause}
+                onResume={regenerationQueue.resume}
+                onCancel={regenerationQueue.cancel}
+                onRetry={regenerationQueue.retry}
+                onRetryFailed={regenerationQueue.retryFailed}
+                onClear={regenerationQueue.clearFinished}
+                onOpenApiKeys={() => setIsApiKeyDialogOpen(true)}
               />
             </>
           )}
@@ -631,9 +1449,10 @@ export default function App() {
             onDelete={handleDeleteSelected}
             onRegenerate={() => handleRegenerate(Array.from(selectedFrames))}
             onDescribe={handleBatchDescribe}
+            onEditPrompts={() => setIsPromptEditorOpen(true)}
             onPreviewSelected={handlePreviewSelected}
             onDownload={handleDownloadSelectedOriginal}
-            disabled={isLoading}
+            disabled={isBusy}
         />
       )}
       
@@ -644,7 +1463,9 @@ export default function App() {
             onRegenerateAgain={() => handleRegenerate(Array.from(selectedRegenFrames))}
             onPreviewSelected={handlePreviewSelectedRegenerated}
             onDownload={handleDownloadSelectedRegenerated}
-            disabled={isLoading}
+            onExportVideo={() => setIsVideoExportOpen(true)}
+            onExportAnimation={() => setIsAnimationExportOpen(true)}
+            disabled={isBusy}
         />
       )}
       
@@ -654,8 +1475,67 @@ export default function App() {
         onClose={handleClosePreview}
         isEditable={previewImages.isEditable}
         onEdit={handleEditImage}
+        onSelectVersion={handleSelectVersion}
+        onUndo={handleUndoVersion}
+        onRedo={handleRedoVersion}
         onDescribe={handleDescribeImage}
         onTranslate={handleTranslatePrompt}
+        onUpdatePrompt={handleUpdatePrompt}
+        onSeek={videoSrc ? handleSeekToFrame : undefined}
+      />}
+
+      {isVideoExportOpen && <ExportVideoDialog
+        frameCount={selectedRegenFrames.size}
+        hasTimestamps={originalFrames.every((frame, index) => !selectedRegenFrames.has(index) || frame.timestamp !== undefined)}
+        hasSourceVideo={!!videoFile}
+        onExport={handleExportVideo}
+        onClose={() => setIsVideoExportOpen(false)}
+      />}
+
+      {isAnimationExportOpen && <ExportAnimationDialog
+        frameCount={selectedRegenFrames.size}
+        hasTimestamps={originalFrames.every((frame, index) => !selectedRegenFrames.has(index) || frame.timestamp !== undefined)}
+        onExport={handleExportAnimation}
+        onClose={() => setIsAnimationExportOpen(false)}
+      />}
+
+      {isPromptEditorOpen && <PromptEditorDialog
+        frames={originalFrames.flatMap((frame, frameIndex) => selectedFrames.has(frameIndex) ? [{ frameIndex, frame }] : [])}
+        onSave={handleSavePromptEdits}
+        onClose={() => setIsPromptEditorOpen(false)}
+      />}
+
+      {isApiKeyDialogOpen && <ApiKeyDialog
+        keys={apiKeys}
+        activeKeyId={activeApiKeyId}
+        hasDeploymentKey={HAS_DEPLOYMENT_API_KEY}
+        onChange={handleApiKeysChange}
+        onSelect={handleSelectApiKey}
+        onTest={testApiKey}
+        encryption={apiKeyEncryption}
+        onUnlock={handleUnlockApiKeys}
+        onEncrypt={handleEncryptApiKeys}
+        onRemoveEncryption={handleRemoveApiKeyEncryption}
+        onLock={handleLockApiKeys}
+        onForgetKeys={handleForgetApiKeys}
+        onClose={() => setIsApiKeyDialogOpen(false)}
+      />}
+
+      {isUsageOpen && <UsageDashboard
+        entries={usageEntries}
+        budget={usageBudget}
+        projects={recentProjects}
+        onBudgetChange={handleBudgetChange}
+        onClear={handleClearUsage}
+        onClose={() => setIsUsageOpen(false)}
+      />}
+
+      {isStyleLibraryOpen && <StyleLibraryDialog
+        styles={customStyles}
+        onChange={handleCustomStylesChange}
+        onImport={handleImportStyles}
+        onExport={handleExportStyles}
+        onClose={() => setIsStyleLibraryOpen(false)}
       />}
     </div>
   );
@@ -6,6 +6,7 @@ interface ActionControlsProps {
   onDelete: () => void;
   onRegenerate: () => void;
   onDescribe: () => void;
+  onEditPrompts: () => void;
   onPreviewSelected: () => void;
   onDownload: () => void;
   disabled: boolean;
@@ -16,6 +17,7 @@ const ActionControls: React.FC<ActionControlsProps> = ({
     onDelete, 
     onRegenerate, 
     onDescribe,
+    onEditPrompts,
     onPreviewSelected,
     onDownload,
     disabled
@@ -51,6 +53,17 @@ const ActionControls: React.FC<ActionControlsProps> = ({
           </svg>
           <span className="hidden sm:inline">Describe</span>
         </button>
+        <button
+          onClick={onEditPrompts}
+          disabled={disabled}
+          title="Edit the Imagen prompts of selected frames"
+          className="flex items-center gap-2 px-3 py-2 sm:px-4 font-semibold text-white bg-amber-600 rounded-md shadow-lg hover:bg-amber-700 transform hover:scale-105 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+          </svg>
+          <span className="hidden sm:inline">Prompts</span>
+        </button>
         <button
           onClick={onDownload}
           disabled={disabled}
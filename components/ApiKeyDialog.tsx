@@ -0,0 +1,417 @@
+import React, { useState } from 'react';
+import { ApiKeyEncryption, ApiKeyStatus, StoredApiKey } from '../types';
+import { maskApiKey } from '../services/apiKeyStore';
+
+interface ApiKeyDialogProps {
+  keys: StoredApiKey[];
+  /** The key used for requests, or null for the deployment's key. */
+  activeKeyId: string | null;
+  /** Whether the deployment provides a key through VITE_API_KEY. */
+  hasDeploymentKey: boolean;
+  onChange: (keys: StoredApiKey[]) => void;
+  onSelect: (id: string | null) => void;
+  /** Resolves if the API accepts the key and rejects with the reason otherwise. */
+  onTest: (key: string) => Promise<void>;
+  encryption: ApiKeyEncryption;
+  /** Rejects with the reason if the passphrase is wrong. */
+  onUnlock: (passphrase: string) => Promise<void>;
+  /** Encrypts the keys with a new passphrase, or changes the passphrase of unlocked keys. */
+  onEncrypt: (passphrase: string) => Promise<void>;
+  onRemoveEncryption: () => void;
+  onLock: () => void;
+  /** Deletes the encrypted keys when the passphrase is forgotten. */
+  onForgetKeys: () => void;
+  onClose: () => void;
+}
+
+/** Shorter passphrases are too easy to guess offline against a copy of the stored data. */
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+const STATUS_STYLES: Record<ApiKeyStatus, { label: string; className: string }> = {
+  untested: { label: 'Untested', className: 'bg-gray-600 text-gray-200' },
+  valid: { label: 'Working', className: 'bg-green-600 text-white' },
+  invalid: { label: 'Rejected', className: 'bg-red-600 text-white' },
+};
+
+const getErrorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const UnlockForm: React.FC<{
+  onUnlock: (passphrase: string) => Promise<void>;
+  onForgetKeys: () => void;
+}> = ({ onUnlock, onForgetKeys }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsUnlocking(true);
+    try {
+      await onUnlock(passphrase);
+    } catch (unlockError) {
+      setError(getErrorMessage(unlockError));
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleForget = () => {
+    if (confirm('Delete all saved API keys? They cannot be recovered without the passphrase, so you will need to add them again.')) {
+      onForgetKeys();
+    }
+  };
+
+  return (
+    <form onSubmit={handleUnlock} className="space-y-3 bg-gray-800/60 border border-gray-700 rounded-lg p-4">
+      <h3 className="text-sm font-medium text-gray-300">Your saved keys are encrypted</h3>
+      <p className="text-xs text-gray-400">Enter your passphrase to use them. They stay unlocked until you close or reload this page.</p>
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => { setPassphrase(e.target.value); setError(null); }}
+        placeholder="Passphrase"
+        autoComplete="current-password"
+        autoFocus
+        aria-label="Passphrase"
+        className={inputClassName}
+      />
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-between items-center gap-2">
+        <button type="button" onClick={handleForget} className="text-xs font-medium text-red-300 hover:text-red-200 transition-colors">
+          Forgot passphrase?
+        </button>
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="px-3 py-1 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const NewPassphraseForm: React.FC<{
+  submitLabel: string;
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel?: () => void;
+}> = ({ submitLabel, onSubmit, onCancel }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const validationMessage = passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`
+    : passphrase !== confirmation ? 'The passphrases do not match.' : null;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (validationMessage) return;
+    setIsSaving(true);
+    try {
+      await onSubmit(passphrase);
+    } catch (saveError) {
+      setError(getErrorMessage(saveError));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="New passphrase" autoComplete="new-password" aria-label="New passphrase" className={inputClassName} />
+      <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="Repeat the passphrase" autoComplete="new-password" aria-label="Repeat the passphrase" className={inputClassName} />
+      {passphrase && validationMessage && <p className="text-xs text-gray-400">{validationMessage}</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-1 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!!validationMessage || isSaving}
+          className="px-3 py-1 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Encrypting...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const EncryptionSection: React.FC<{
+  encryption: ApiKeyEncryption;
+  onEncrypt: (passphrase: string) => Promise<void>;
+  onRemoveEncryption: () => void;
+  onLock: () => void;
+}> = ({ encryption, onEncrypt, onRemoveEncryption, onLock }) => {
+  const [isChanging, setIsChanging] = useState(false);
+
+  const handleChange = async (passphrase: string) => {
+    await onEncrypt(passphrase);
+    setIsChanging(false);
+  };
+
+  const handleRemove = () => {
+    if (confirm('Store your API keys in plain text again? Browser extensions and scripts on this page will be able to read them.')) {
+      onRemoveEncryption();
+    }
+  };
+
+  return (
+    <div className="space-y-3 bg-gray-800/60 border border-gray-700 rounded-lg p-4">
+      <h3 className="text-sm font-medium text-gray-300">Passphrase Protection</h3>
+      {encryption === 'off' ? (
+        <>
+          <p className="text-xs text-gray-400">
+            Saved keys are stored in plain text, where browser extensions and scripts on this page can read them.
+            Encrypt them with a passphrase you enter once each time you open the app; it cannot be recovered if forgotten.
+          </p>
+          <NewPassphraseForm submitLabel="Encrypt Keys" onSubmit={onEncrypt} />
+        </>
+      ) : (
+        <>
+          <p className="text-xs text-gray-400">
+            Saved keys are encrypted. They are unlocked until you close or reload this page, and are only held in memory meanwhile.
+          </p>
+          {isChanging ? (
+            <NewPassphraseForm submitLabel="Change Passphrase" onSubmit={handleChange} onCancel={() => setIsChanging(false)} />
+          ) : (
+            <div className="flex flex-wrap justify-end gap-2">
+              <button onClick={handleRemove} className="px-3 py-1 text-sm font-semibold text-red-300 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors">
+                Turn Off Encryption
+              </button>
+              <button onClick={() => setIsChanging(true)} className="px-3 py-1 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">
+                Change Passphrase
+              </button>
+              <button onClick={onLock} className="px-3 py-1 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-500 transition-colors">
+                Lock Now
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const ApiKeyDialog: React.FC<ApiKeyDialogProps> = ({
+  keys,
+  activeKeyId,
+  hasDeploymentKey,
+  onChange,
+  onSelect,
+  onTest,
+  encryption,
+  onUnlock,
+  onEncrypt,
+  onRemoveEncryption,
+  onLock,
+  onForgetKeys,
+  onClose,
+}) => {
+  const [name, setName] = useState('');
+  const [keyDraft, setKeyDraft] = useState('');
+  const [showKey, setShowKey] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [testErrors, setTestErrors] = useState<Record<string, string>>({});
+  const [addError, setAddError] = useState<string | null>(null);
+
+  const isTesting = testingId !== null;
+  const trimmedKey = keyDraft.trim();
+
+  /** Tests a key and returns its new status along with the reason it failed, if it did. */
+  const runTest = async (key: string): Promise<{ status: ApiKeyStatus; error?: string }> => {
+    try {
+      await onTest(key);
+      return { status: 'valid' };
+    } catch (error) {
+      return { status: 'invalid', error: getErrorMessage(error) };
+    }
+  };
+
+  const handleTest = async (entry: StoredApiKey) => {
+    setTestingId(entry.id);
+    const { status, error } = await runTest(entry.key);
+    setTestingId(null);
+    setTestErrors(prev => ({ ...prev, [entry.id]: error ?? '' }));
+    onChange(keys.map(k => (k.id === entry.id ? { ...k, status, checkedAt: Date.now() } : k)));
+  };
+
+  const addKey = (status: ApiKeyStatus) => {
+    const entry: StoredApiKey = {
+      id: crypto.randomUUID(),
+      name: name.trim() || `Key ${keys.length + 1}`,
+      key: trimmedKey,
+      status,
+      checkedAt: status === 'untested' ? undefined : Date.now(),
+    };
+    onChange([...keys, entry]);
+    // The first key added is put to use straight away.
+    if (!activeKeyId) {
+      onSelect(entry.id);
+    }
+    setName('');
+    setKeyDraft('');
+    setShowKey(false);
+    setAddError(null);
+  };
+
+  const handleTestAndSave = async () => {
+    setTestingId('new');
+    const { status, error } = await runTest(trimmedKey);
+    setTestingId(null);
+    if (status === 'valid') {
+      addKey('valid');
+    } else {
+      setAddError(error ?? 'The key was rejected.');
+    }
+  };
+
+  const handleRemove = (entry: StoredApiKey) => {
+    if (!confirm(`Remove the key "${entry.name}" from this browser?`)) return;
+    onChange(keys.filter(k => k.id !== entry.id));
+    if (entry.id === activeKeyId) {
+      onSelect(null);
+    }
+  };
+
+  const handleRename = (entry: StoredApiKey, newName: string) => {
+    onChange(keys.map(k => (k.id === entry.id ? { ...k, name: newName } : k)));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="API keys"
+    >
+      <div className="w-full max-w-xl max-h-[90vh] flex flex-col bg-gray-900 rounded-lg shadow-2xl p-6 gap-5" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h2 className="text-xl font-semibold text-white">Gemini API Keys</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Keys are stored in this browser only. The selected key is used for every request.
+          </p>
+        </div>
+
+        {encryption === 'locked' ? (
+          <UnlockForm onUnlock={onUnlock} onForgetKeys={onForgetKeys} />
+        ) : (
+        <>
+          <ul className="flex-grow overflow-y-auto space-y-2 pr-1">
+            {hasDeploymentKey && (
+              <li className={`flex items-center gap-3 p-3 rounded-lg border ${activeKeyId === null ? 'border-purple-500 bg-purple-500/10' : 'border-gray-700 bg-gray-800/60'}`}>
+                <input type="radio" name="active-api-key" checked={activeKeyId === null} onChange={() => onSelect(null)} aria-label="Use the deployment's key" />
+                <div className="flex-grow text-sm">
+                  <div className="text-white">Deployment key</div>
+                  <div className="text-xs text-gray-400">Provided through VITE_API_KEY</div>
+                </div>
+              </li>
+            )}
+            {keys.map(entry => {
+              const status = STATUS_STYLES[entry.status];
+              const isActive = entry.id === activeKeyId;
+              return (
+                <li key={entry.id} className={`p-3 rounded-lg border ${isActive ? 'border-purple-500 bg-purple-500/10' : 'border-gray-700 bg-gray-800/60'}`}>
+                  <div className="flex items-center gap-3">
+                    <input type="radio" name="active-api-key" checked={isActive} onChange={() => onSelect(entry.id)} aria-label={`Use ${entry.name}`} />
+                    <div className="flex-grow min-w-0">
+                      <input
+                        type="text"
+                        value={entry.name}
+                        onChange={(e) => handleRename(entry, e.target.value)}
+                        aria-label="Key name"
+                        className="w-full bg-transparent text-sm text-white focus:outline-none focus:ring-1 focus:ring-purple-500 rounded px-1"
+                      />
+                      <div className="flex items-center gap-2 px-1 text-xs text-gray-400">
+                        <span className="font-mono">{maskApiKey(entry.key)}</span>
+                        <span className={`px-1.5 py-0.5 rounded font-semibold ${status.className}`}>{status.label}</span>
+                        {entry.checkedAt && <span>checked {new Date(entry.checkedAt).toLocaleString()}</span>}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleTest(entry)}
+                      disabled={isTesting}
+                      className="px-2 py-1 text-xs font-semibold text-purple-300 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {testingId === entry.id ? 'Testing...' : 'Test'}
+                    </button>
+                    <button
+                      onClick={() => handleRemove(entry)}
+                      disabled={isTesting}
+                      className="px-2 py-1 text-xs font-semibold text-red-300 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  {testErrors[entry.id] && <p className="text-xs text-red-400 mt-2 px-1">{testErrors[entry.id]}</p>}
+                </li>
+              );
+            })}
+            {keys.length === 0 && !hasDeploymentKey && (
+              <li className="text-sm text-gray-400">No key yet. Add one below to start regenerating frames.</li>
+            )}
+          </ul>
+
+          <div className="space-y-3 bg-gray-800/60 border border-gray-700 rounded-lg p-4">
+            <h3 className="text-sm font-medium text-gray-300">Add a Key</h3>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. Personal or Team billing" className={inputClassName} />
+            <div className="flex gap-2">
+              <input
+                type={showKey ? 'text' : 'password'}
+                value={keyDraft}
+                onChange={(e) => { setKeyDraft(e.target.value); setAddError(null); }}
+                placeholder="Paste your Gemini API key"
+                autoComplete="off"
+                spellCheck={false}
+                aria-label="API key"
+                className={`${inputClassName} font-mono`}
+              />
+              <button
+                onClick={() => setShowKey(prev => !prev)}
+                className="px-3 text-xs font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors"
+              >
+                {showKey ? 'Hide' : 'Show'}
+              </button>
+            </div>
+            {addError && <p className="text-xs text-red-400">{addError}</p>}
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => addKey('untested')}
+                disabled={!trimmedKey || isTesting}
+                className="px-3 py-1 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save Without Testing
+              </button>
+              <button
+                onClick={handleTestAndSave}
+                disabled={!trimmedKey || isTesting}
+                className="px-3 py-1 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {testingId === 'new' ? 'Testing...' : 'Test & Save'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-400">Testing looks up a model with the key, which does not use any quota.</p>
+          </div>
+
+          <EncryptionSection encryption={encryption} onEncrypt={onEncrypt} onRemoveEncryption={onRemoveEncryption} onLock={onLock} />
+        </>
+        )}
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyDialog;
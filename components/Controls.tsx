@@ -1,13 +1,47 @@
 
 import React from 'react';
-import { ArtStyle, RegenerationModel } from '../types';
+import { ArtStyle, CustomArtStyle, ProviderId, RegenerationModel } from '../types';
+import { ImageProvider } from '../services/imageProvider';
+import { formatCost } from '../services/usageLedger';
 
 interface ControlsProps {
   selectedStyle: ArtStyle;
   onStyleChange: (style: ArtStyle) => void;
+  customStyles: CustomArtStyle[];
+  /** The selected custom style, which takes precedence over selectedStyle. */
+  selectedCustomStyleId: string | null;
+  onCustomStyleChange: (id: string) => void;
+  onManageStyles: () => void;
+  /** Data URLs of images whose look Gemini should match instead of the selected style. */
+  styleReferences: string[];
+  maxStyleReferences: number;
+  onAddStyleReferences: (files: File[]) => void;
+  onRemoveStyleReference: (index: number) => void;
+  usePreviousFrame: boolean;
+  onUsePreviousFrameChange: (enabled: boolean) => void;
+  anchorFrameIndex: number | null;
+  /** Regenerated frames that can be chosen as the anchor. */
+  anchorCandidates: Array<{ index: number; src: string }>;
+  onAnchorFrameChange: (index: number | null) => void;
+  variationCount: number;
+  maxVariations: number;
+  onVariationCountChange: (count: number) => void;
   onRegenerate: () => void;
+  /** Estimated cost of regenerating every frame, or null when the provider is free. */
+  estimatedCost: number | null;
+  /** What is left of the budget this period, or null when no budget is set. */
+  budgetRemaining: number | null;
+  onOpenUsage: () => void;
   regenerationModel: RegenerationModel;
   onModelChange: (model: RegenerationModel) => void;
+  provider: ProviderId;
+  providers: ImageProvider[];
+  onProviderChange: (provider: ProviderId) => void;
+  requestsPerMinute: Record<string, number>;
+  onRequestsPerMinuteChange: (model: string, limit: number) => void;
+  concurrency: number;
+  maxConcurrency: number;
+  onConcurrencyChange: (limit: number) => void;
   disabled: boolean;
 }
 
@@ -42,14 +76,55 @@ const ModelOption: React.FC<{
 };
 
 
+const CUSTOM_STYLE_PREFIX = 'custom:';
+
 const Controls: React.FC<ControlsProps> = ({ 
   selectedStyle, 
   onStyleChange, 
+  customStyles,
+  selectedCustomStyleId,
+  onCustomStyleChange,
+  onManageStyles,
+  styleReferences,
+  maxStyleReferences,
+  onAddStyleReferences,
+  onRemoveStyleReference,
+  usePreviousFrame,
+  onUsePreviousFrameChange,
+  anchorFrameIndex,
+  anchorCandidates,
+  onAnchorFrameChange,
+  variationCount,
+  maxVariations,
+  onVariationCountChange,
   onRegenerate, 
+  estimatedCost,
+  budgetRemaining,
+  onOpenUsage,
   regenerationModel,
   onModelChange,
+  provider,
+  providers,
+  onProviderChange,
+  requestsPerMinute,
+  onRequestsPerMinuteChange,
+  concurrency,
+  maxConcurrency,
+  onConcurrencyChange,
   disabled 
 }) => {
+  const selectedCustomStyle = customStyles.find(style => style.id === selectedCustomStyleId);
+  const activeProvider = providers.find(option => option.id === provider);
+  const anchorSrc = anchorCandidates.find(candidate => candidate.index === anchorFrameIndex)?.src;
+
+  const handleStyleSelect = (value: string) => {
+    if (value.startsWith(CUSTOM_STYLE_PREFIX)) {
+      onCustomStyleChange(value.slice(CUSTOM_STYLE_PREFIX.length));
+    } else {
+      onStyleChange(value as ArtStyle);
+    }
+  };
+
   return (
     <section className="text-center space-y-6">
       <h2 className="text-2xl font-semibold">2. AI Regeneration</h2>
@@ -62,28 +137,123 @@ const Controls: React.FC<ControlsProps> = ({
       <div className="space-y-6 max-w-lg mx-auto">
         {/* Style Dropdown */}
         <div>
-            <label htmlFor="style-select" className="block text-sm font-medium text-gray-300 mb-2 text-left">Artistic Style</label>
-            <div className="relative">
-                <select
-                    id="style-select"
-                    value={selectedStyle}
-                    onChange={(e) => onStyleChange(e.target.value as ArtStyle)}
+            <div className="flex items-center justify-between mb-2">
+                <label htmlFor="style-select" className="block text-sm font-medium text-gray-300 text-left">Artistic Style</label>
+                <button
+                    onClick={onManageStyles}
                     disabled={disabled}
-                    className="w-full appearance-none bg-gray-700 border border-gray-600 rounded-md px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                    aria-label="Select artistic style"
+                    className="text-sm font-medium text-purple-300 hover:text-purple-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                {Object.values(ArtStyle).map((style) => (
-                    <option key={style} value={style}>
-                    {style}
-                    </option>
-                ))}
-                </select>
-                <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-400">
-                    <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/></svg>
+                    Manage My Styles
+                </button>
+            </div>
+            <div className="flex items-center gap-3">
+                {selectedCustomStyle?.thumbnail && (
+                    <img src={selectedCustomStyle.thumbnail} alt="" className="w-12 h-12 rounded-md object-cover flex-shrink-0" />
+                )}
+                <div className="relative flex-grow">
+                    <select
+                        id="style-select"
+                        value={selectedCustomStyle ? `${CUSTOM_STYLE_PREFIX}${selectedCustomStyle.id}` : selectedStyle}
+                        onChange={(e) => handleStyleSelect(e.target.value)}
+                        disabled={disabled}
+                        className="w-full appearance-none bg-gray-700 border border-gray-600 rounded-md px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        aria-label="Select artistic style"
+                    >
+                    <optgroup label="Built-in Styles">
+                        {Object.values(ArtStyle).map((style) => (
+                            <option key={style} value={style}>
+                            {style}
+                            </option>
+                        ))}
+                    </optgroup>
+                    {customStyles.length > 0 && (
+                        <optgroup label="My Styles">
+                            {customStyles.map((style) => (
+                                <option key={style.id} value={`${CUSTOM_STYLE_PREFIX}${style.id}`}>
+                                {style.name}
+                                </option>
+                            ))}
+                        </optgroup>
+                    )}
+                    </select>
+                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-400">
+                        <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/></svg>
+                    </div>
                 </div>
             </div>
         </div>
 
+        {/* Style References */}
+        <div className="text-left">
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+                Style Reference Images <span className="text-gray-400 font-normal">(optional)</span>
+            </label>
+            <div className="flex flex-wrap items-center gap-2">
+                {styleReferences.map((src, index) => (
+                    <div key={index} className="relative group">
+                        <img src={src} alt={`Style reference ${index + 1}`} className="w-16 h-16 rounded-md object-cover border border-gray-600" />
+                        <button
+                            onClick={() => onRemoveStyleReference(index)}
+                            disabled={disabled}
+                            className="absolute -top-2 -right-2 p-0.5 bg-gray-800 rounded-full text-gray-300 hover:bg-red-600 hover:text-white transition-colors disabled:opacity-50"
+                            aria-label={`Remove style reference ${index + 1}`}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+                ))}
+                {styleReferences.length < maxStyleReferences && (
+                    <label className={`w-16 h-16 flex items-center justify-center rounded-md border border-dashed border-gray-500 text-gray-400 hover:border-purple-500 hover:text-purple-300 transition-colors ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                        </svg>
+                        <input
+                            type="file"
+                            accept="image/*"
+                            multiple
+                            disabled={disabled}
+                            onChange={(e) => {
+                                const files = e.target.files ? [...e.target.files] : [];
+                                e.target.value = '';
+                                if (files.length > 0) onAddStyleReferences(files);
+                            }}
+                            className="sr-only"
+                            aria-label="Add style reference images"
+                        />
+                    </label>
+                )}
+            </div>
+            <p className="text-xs text-gray-400 mt-2">
+                {styleReferences.length > 0
+                    ? regenerationModel === 'gemini'
+                        ? 'Gemini will match the palette and rendering of these images instead of the selected style.'
+                        : 'Reference images only work with Gemini; Imagen will use the selected style.'
+                    : `Upload up to ${maxStyleReferences} images of your brand's look for Gemini to match.`}
+            </p>
+        </div>
+
+        {/* Provider Selection */}
+        <div className="text-left">
+            <label htmlFor="provider-select" className="block text-sm font-medium text-gray-300 mb-2">AI Provider</label>
+            <select
+                id="provider-select"
+                value={provider}
+                onChange={(e) => onProviderChange(e.target.value as ProviderId)}
+                disabled={disabled}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                {providers.map(option => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+            </select>
+            {activeProvider && !activeProvider.requiresApiKey && (
+                <p className="text-xs text-gray-400 mt-2">Runs offline in your browser with canvas filters. No API key is needed and nothing is billed.</p>
+            )}
+        </div>
+
         {/* Model Selection */}
         <div>
             <label className="block text-sm font-medium text-gray-300 mb-2 text-left">Regeneration Engine</label>
@@ -106,10 +276,145 @@ const Controls: React.FC<ControlsProps> = ({
                 />
             </div>
         </div>
+
+        {/* Variations */}
+        <div className="text-left">
+            <label htmlFor="variation-slider" className="block text-sm font-medium text-gray-300 mb-2">
+                Variations per Frame <span className="text-gray-400 font-normal">(pick the best one in the preview)</span>
+            </label>
+            <div className="flex items-center gap-4">
+                <input
+                    id="variation-slider"
+                    type="range"
+                    min="1"
+                    max={maxVariations}
+                    step="1"
+                    value={variationCount}
+                    onChange={(e) => onVariationCountChange(Number(e.target.value))}
+                    disabled={disabled}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                />
+                <span className="font-mono text-purple-300 w-8 text-center">{variationCount}</span>
+            </div>
+            {variationCount > 1 && regenerationModel === 'gemini' && (
+                <p className="text-xs text-gray-400 mt-2">Gemini makes one request per variation, so this multiplies API usage.</p>
+            )}
+        </div>
+
+        {/* Sequence Consistency */}
+        <div className={`text-left bg-gray-700/30 border border-gray-600 rounded-lg p-4 space-y-3 ${regenerationModel === 'gemini' ? '' : 'opacity-60'}`}>
+            <div>
+                <h3 className="text-sm font-medium text-gray-300">Consistent Sequence</h3>
+                <p className="text-xs text-gray-400 mt-1">
+                    {regenerationModel === 'gemini'
+                        ? 'Show Gemini frames it has already regenerated so characters, outfits and colors stay the same from frame to frame.'
+                        : 'Only available with Gemini, which can take regenerated frames as context.'}
+                </p>
+            </div>
+            <label className="flex items-start gap-2 text-sm text-gray-200">
+                <input
+                    type="checkbox"
+                    checked={usePreviousFrame}
+                    onChange={(e) => onUsePreviousFrameChange(e.target.checked)}
+                    disabled={disabled || regenerationModel !== 'gemini'}
+                    className="mt-1"
+                />
+                <span>
+                    Continue from the previous frame
+                    <span className="block text-xs text-gray-400">Frames are regenerated in order, one after another.</span>
+                </span>
+            </label>
+            <div className="flex items-center gap-3">
+                {anchorSrc ? (
+                    <img src={anchorSrc} alt="Anchor frame" className="w-12 h-12 rounded-md object-cover flex-shrink-0" />
+                ) : (
+                    <div className="w-12 h-12 rounded-md bg-gray-700 border border-dashed border-gray-500 flex-shrink-0" />
+                )}
+                <div className="flex-grow">
+                    <label htmlFor="anchor-select" className="block text-sm text-gray-300 mb-1">Anchor Frame</label>
+                    <select
+                        id="anchor-select"
+                        value={anchorFrameIndex ?? ''}
+                        onChange={(e) => onAnchorFrameChange(e.target.value === '' ? null : Number(e.target.value))}
+                        disabled={disabled || regenerationModel !== 'gemini' || anchorCandidates.length === 0}
+                        className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <option value="">{anchorCandidates.length === 0 ? 'Regenerate a frame first' : 'None'}</option>
+                        {anchorCandidates.map(({ index }) => (
+                            <option key={index} value={index}>Frame {index + 1}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+        </div>
+
+        {/* Rate Limits */}
+        <details className="text-left bg-gray-700/30 border border-gray-600 rounded-lg p-4">
+            <summary className="text-sm font-medium text-gray-300 cursor-pointer">Throughput & Rate Limits</summary>
+            <label htmlFor="concurrency-slider" className="block text-sm text-gray-300 mt-3 mb-2">
+                Parallel Requests <span className="text-gray-400">(frames processed at once; each frame's variations run together)</span>
+            </label>
+            <div className="flex items-center gap-4">
+                <input
+                    id="concurrency-slider"
+                    type="range"
+                    min="1"
+                    max={maxConcurrency}
+                    step="1"
+                    value={concurrency}
+                    onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+                    disabled={disabled}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                />
+                <span className="font-mono text-purple-300 w-8 text-center">{concurrency}</span>
+            </div>
+            <p className="text-xs text-gray-400 mt-4 mb-3">
+                Maximum requests started per minute for each model. Raise these on a paid tier; requests that still hit a rate limit are retried automatically.
+            </p>
+            <div className="space-y-2">
+                {Object.entries(requestsPerMinute).map(([model, limit]) => (
+                    <label key={model} className="flex items-center justify-between gap-4 text-sm">
+                        <span className="font-mono text-gray-300 truncate">{model}</span>
+                        <input
+                            type="number"
+                            min="1"
+                            max="1000"
+                            value={limit}
+                            onChange={(e) => onRequestsPerMinuteChange(model, Number(e.target.value))}
+                            disabled={disabled}
+                            className="w-24 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white text-right focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                            aria-label={`Requests per minute for ${model}`}
+                        />
+                    </label>
+                ))}
+            </div>
+        </details>
       </div>
       
       {/* Action Button */}
       <div className="pt-4">
+        <div className="text-sm mb-3 space-y-1">
+            {estimatedCost !== null ? (
+                <p className="text-gray-300">
+                    Estimated cost: <span className="font-mono text-purple-300">~{formatCost(estimatedCost)}</span>
+                    <span className="text-gray-500"> at list prices</span>
+                </p>
+            ) : (
+                <p className="text-gray-400">This provider runs offline and costs nothing.</p>
+            )}
+            {budgetRemaining !== null && budgetRemaining <= 0 && (
+                <p className="text-red-400">Your budget is used up, so new jobs are blocked.</p>
+            )}
+            {budgetRemaining !== null && budgetRemaining > 0 && estimatedCost !== null && estimatedCost > budgetRemaining && (
+                <p className="text-amber-300">This is more than the {formatCost(budgetRemaining)} left in your budget; jobs stop once it runs out.</p>
+            )}
+            <button
+                onClick={onOpenUsage}
+                className="text-sm font-medium text-purple-300 hover:text-purple-200 transition-colors"
+            >
+                Usage & Budget
+            </button>
+        </div>
         <button
           onClick={onRegenerate}
           disabled={disabled}
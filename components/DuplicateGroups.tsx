@@ -0,0 +1,83 @@
+import React from 'react';
+
+interface DuplicateGroupsProps {
+  /** Groups of look-alike frame indices, from findDuplicateGroups. */
+  groups: number[][];
+  frames: string[];
+  selectedFrames: Set<number>;
+  onFrameSelect: (index: number) => void;
+  onSelectExtras: () => void;
+  onClose: () => void;
+  aspectRatio?: number | null;
+}
+
+const DuplicateGroups: React.FC<DuplicateGroupsProps> = ({
+  groups,
+  frames,
+  selectedFrames,
+  onFrameSelect,
+  onSelectExtras,
+  onClose,
+  aspectRatio,
+}) => {
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4 gap-2 flex-wrap">
+        <h2 className="text-2xl font-semibold">Look-alike Frames</h2>
+        <div className="flex gap-2">
+          {groups.length > 0 && (
+            <button
+              onClick={onSelectExtras}
+              title="Select every frame except the first of each group"
+              className="px-3 py-1 text-sm font-medium text-purple-300 bg-gray-700/60 rounded-md hover:bg-gray-600/60 transition-colors focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              Select Extras
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-sm font-medium text-purple-300 bg-gray-700/60 rounded-md hover:bg-gray-600/60 transition-colors focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            Show All Frames
+          </button>
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-center text-gray-400">No look-alike frames found.</p>
+      ) : (
+        <div className="space-y-6">
+          {groups.map((group, groupIndex) => (
+            <div key={group[0]} className="bg-gray-700/30 border border-gray-600 rounded-lg p-4">
+              <p className="text-sm text-gray-300 mb-3">
+                Group {groupIndex + 1} <span className="text-gray-400">· {group.length} look-alikes</span>
+              </p>
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                {group.map(index => {
+                  const isSelected = selectedFrames.has(index);
+                  return (
+                    <button
+                      key={index}
+                      onClick={() => onFrameSelect(index)}
+                      className={`bg-gray-700 rounded-lg overflow-hidden shadow-md relative transition-all duration-300 focus:outline-none focus:ring-4 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-purple-500
+                        ${isSelected ? 'ring-4 ring-purple-500 ring-offset-2 ring-offset-gray-900' : ''}
+                      `}
+                      style={{ aspectRatio: aspectRatio ? `${aspectRatio}` : undefined }}
+                    >
+                      <img src={frames[index]} alt={`Frame ${index + 1}`} className="w-full h-full object-cover" />
+                      <div className="absolute bottom-0 left-0 bg-black/50 text-white text-xs px-2 py-1 rounded-tr-lg">
+                        Frame {index + 1}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DuplicateGroups;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { AnimationExportOptions, AnimationFormat } from '../utils/animationExporter';
+
+interface ExportAnimationDialogProps {
+  frameCount: number;
+  /** Whether every frame has a source timestamp, so original timing is available. */
+  hasTimestamps: boolean;
+  onExport: (options: AnimationExportOptions) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-28 bg-gray-700 border border-gray-600 rounded-md px-3 py-1 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50";
+
+const ExportAnimationDialog: React.FC<ExportAnimationDialogProps> = ({ frameCount, hasTimestamps, onExport, onClose }) => {
+  const [format, setFormat] = useState<AnimationFormat>('gif');
+  const [timing, setTiming] = useState<AnimationExportOptions['timing']>('fixed');
+  const [delayMs, setDelayMs] = useState(500);
+  const [loopCount, setLoopCount] = useState(0);
+  const [colors, setColors] = useState(256);
+  const [quantize, setQuantize] = useState(true);
+  const [dither, setDither] = useState(true);
+  const [maxDimension, setMaxDimension] = useState(640);
+  const [maxSizeMb, setMaxSizeMb] = useState(0);
+
+  // GIF is always indexed colour.
+  const isQuantized = format === 'gif' || quantize;
+
+  const handleExport = () => {
+    onExport({
+      format,
+      timing,
+      delayMs,
+      loopCount,
+      colors,
+      quantize: isQuantized,
+      dither,
+      maxDimension,
+      maxBytes: Math.round(maxSizeMb * 1024 * 1024),
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Export animation"
+    >
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-gray-900 rounded-lg shadow-2xl p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-semibold text-white">Export {frameCount} frame(s) as animation</h2>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Format</label>
+          <div className="flex gap-4 text-sm text-gray-200">
+            <label className="flex items-center gap-2">
+              <input type="radio" name="animation-format" checked={format === 'gif'} onChange={() => setFormat('gif')} />
+              GIF
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="animation-format" checked={format === 'apng'} onChange={() => setFormat('apng')} />
+              APNG
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Frame Delay</label>
+          <div className="space-y-2 text-sm text-gray-200">
+            <label className={`flex items-center gap-2 ${hasTimestamps ? '' : 'opacity-50'}`}>
+              <input type="radio" name="animation-timing" checked={timing === 'original'} onChange={() => setTiming('original')} disabled={!hasTimestamps} />
+              From original timestamps {!hasTimestamps && <span className="text-gray-400">(some frames have none)</span>}
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="animation-timing" checked={timing === 'fixed'} onChange={() => setTiming('fixed')} />
+              Same for every frame
+            </label>
+          </div>
+          <label htmlFor="animation-delay" className="block text-sm text-gray-300 mt-3 mb-1">
+            Delay in ms <span className="text-gray-400">({timing === 'fixed' ? 'per frame' : 'for the last frame'})</span>
+          </label>
+          <input id="animation-delay" type="number" min="20" step="10" value={delayMs} onChange={(e) => setDelayMs(Number(e.target.value))} className={inputClassName} />
+        </div>
+
+        <div>
+          <label htmlFor="animation-loops" className="block text-sm font-medium text-gray-300 mb-1">
+            Loop Count <span className="text-gray-400 font-normal">(0 = forever)</span>
+          </label>
+          <input id="animation-loops" type="number" min="0" max="65535" step="1" value={loopCount} onChange={(e) => setLoopCount(Number(e.target.value))} className={inputClassName} />
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-300">Colours</label>
+          {format === 'apng' && (
+            <label className="flex items-center gap-2 text-sm text-gray-200">
+              <input type="checkbox" checked={quantize} onChange={(e) => setQuantize(e.target.checked)} />
+              Reduce to a palette <span className="text-gray-400">(smaller file)</span>
+            </label>
+          )}
+          <div className="flex items-center gap-4">
+            <input
+              type="range"
+              min="2"
+              max="256"
+              step="1"
+              value={colors}
+              onChange={(e) => setColors(Number(e.target.value))}
+              disabled={!isQuantized}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+              aria-label="Palette size"
+            />
+            <span className="font-mono text-purple-300 w-12 text-center">{colors}</span>
+          </div>
+          <label className={`flex items-center gap-2 text-sm text-gray-200 ${isQuantized ? '' : 'opacity-50'}`}>
+            <input type="checkbox" checked={dither} onChange={(e) => setDither(e.target.checked)} disabled={!isQuantized} />
+            Dithering <span className="text-gray-400">(smoother gradients, larger file)</span>
+          </label>
+        </div>
+
+        <div className="flex gap-4">
+          <div>
+            <label htmlFor="animation-dimension" className="block text-sm font-medium text-gray-300 mb-1">Max Size (px)</label>
+            <input id="animation-dimension" type="number" min="16" step="16" value={maxDimension} onChange={(e) => setMaxDimension(Number(e.target.value))} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="animation-budget" className="block text-sm font-medium text-gray-300 mb-1">
+              File Budget (MB) <span className="text-gray-400 font-normal">(0 = none)</span>
+            </label>
+            <input id="animation-budget" type="number" min="0" step="0.5" value={maxSizeMb} onChange={(e) => setMaxSizeMb(Number(e.target.value))} className={inputClassName} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={delayMs <= 0 || maxDimension < 16 || loopCount < 0}
+            className="px-4 py-2 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportAnimationDialog;
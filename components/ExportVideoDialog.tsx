@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { getSupportedMimeType, VideoExportFormat, VideoExportOptions } from '../utils/videoExporter';
+
+interface ExportVideoDialogProps {
+  frameCount: number;
+  /** Whether every frame has a source timestamp, so original timing is available. */
+  hasTimestamps: boolean;
+  /** Whether the source video is available for its audio track. */
+  hasSourceVideo: boolean;
+  onExport: (options: VideoExportOptions) => void;
+  onClose: () => void;
+}
+
+const ExportVideoDialog: React.FC<ExportVideoDialogProps> = ({ frameCount, hasTimestamps, hasSourceVideo, onExport, onClose }) => {
+  const supportsWebm = getSupportedMimeType('webm') !== null;
+  const supportsMp4 = getSupportedMimeType('mp4') !== null;
+
+  const [format, setFormat] = useState<VideoExportFormat>(supportsWebm || !supportsMp4 ? 'webm' : 'mp4');
+  const [timing, setTiming] = useState<VideoExportOptions['timing']>(hasTimestamps ? 'original' : 'fixed');
+  const [fps, setFps] = useState(2);
+  const [includeAudio, setIncludeAudio] = useState(hasSourceVideo && hasTimestamps);
+
+  const canExport = (format === 'webm' ? supportsWebm : supportsMp4) && fps > 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Export video"
+    >
+      <div className="w-full max-w-md bg-gray-900 rounded-lg shadow-2xl p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-semibold text-white">Export {frameCount} frame(s) as video</h2>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Format</label>
+          <div className="flex gap-4 text-sm text-gray-200">
+            <label className={`flex items-center gap-2 ${supportsWebm ? '' : 'opacity-50'}`}>
+              <input type="radio" name="video-format" checked={format === 'webm'} onChange={() => setFormat('webm')} disabled={!supportsWebm} />
+              WebM
+            </label>
+            <label className={`flex items-center gap-2 ${supportsMp4 ? '' : 'opacity-50'}`}>
+              <input type="radio" name="video-format" checked={format === 'mp4'} onChange={() => setFormat('mp4')} disabled={!supportsMp4} />
+              MP4 {!supportsMp4 && <span className="text-gray-400">(not supported by this browser)</span>}
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Timing</label>
+          <div className="space-y-2 text-sm text-gray-200">
+            <label className={`flex items-center gap-2 ${hasTimestamps ? '' : 'opacity-50'}`}>
+              <input type="radio" name="video-timing" checked={timing === 'original'} onChange={() => setTiming('original')} disabled={!hasTimestamps} />
+              Original timestamps {!hasTimestamps && <span className="text-gray-400">(some frames have none)</span>}
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="video-timing" checked={timing === 'fixed'} onChange={() => setTiming('fixed')} />
+              Fixed rate
+            </label>
+          </div>
+          <label htmlFor="video-fps" className="block text-sm text-gray-300 mt-3 mb-1">
+            Frames per second <span className="text-gray-400">({timing === 'fixed' ? 'each frame is held for 1/fps seconds' : 'sets how long the last frame is held'})</span>
+          </label>
+          <input
+            id="video-fps"
+            type="number"
+            min="0.1"
+            max="60"
+            step="0.1"
+            value={fps}
+            onChange={(e) => setFps(Number(e.target.value))}
+            className="w-32 bg-gray-700 border border-gray-600 rounded-md px-3 py-1 text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+
+        <label className={`flex items-center gap-2 text-sm text-gray-200 ${hasSourceVideo ? '' : 'opacity-50'}`}>
+          <input type="checkbox" checked={includeAudio} onChange={(e) => setIncludeAudio(e.target.checked)} disabled={!hasSourceVideo} />
+          Include the original audio
+        </label>
+
+        <p className="text-xs text-gray-400">Recording happens in real time, so the export takes as long as the video it produces.</p>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport({ format, timing, fps, includeAudio: includeAudio && hasSourceVideo })}
+            disabled={!canExport}
+            className="px-4 py-2 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportVideoDialog;
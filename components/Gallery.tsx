@@ -1,26 +1,37 @@
 
 import React from 'react';
+import { FrameMetadata } from '../types';
+import { describeFrameMetadata, formatTimestamp } from '../utils/frameMetadata';
 
 interface GalleryProps {
   title: string;
   frames: string[];
+  /** Source metadata per frame, shown as a timestamp badge. */
+  metadata?: Array<FrameMetadata | undefined>;
+  /** Called with a frame's timestamp when its badge is clicked. */
+  onSeek?: (time: number) => void;
   selectedFrames?: Set<number>;
   onFrameSelect?: (index: number) => void;
   onFramePreview?: (src: string) => void;
   aspectRatio?: number | null;
   onSelectAll?: () => void;
   isAllSelected?: boolean;
+  /** Extra buttons shown next to Select All. */
+  actions?: React.ReactNode;
 }
 
 const Gallery: React.FC<GalleryProps> = ({ 
   title, 
   frames, 
+  metadata,
+  onSeek,
   selectedFrames, 
   onFrameSelect, 
   onFramePreview, 
   aspectRatio,
   onSelectAll,
-  isAllSelected
+  isAllSelected,
+  actions
 }) => {
   const isSelectable = !!onFrameSelect;
   const hasFrames = frames.some(f => f);
@@ -30,24 +41,34 @@ const Gallery: React.FC<GalleryProps> = ({
     onFramePreview?.(frame);
   };
 
+  const handleSeekClick = (e: React.MouseEvent<HTMLButtonElement>, time: number) => {
+    e.stopPropagation();
+    onSeek?.(time);
+  };
+
   return (
     <section>
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-2xl font-semibold">{title}</h2>
-        {onSelectAll && hasFrames && (
-          <button
-            onClick={onSelectAll}
-            className="px-3 py-1 text-sm font-medium text-purple-300 bg-gray-700/60 rounded-md hover:bg-gray-600/60 transition-colors focus:outline-none focus:ring-2 focus:ring-purple-500"
-          >
-            {isAllSelected ? 'Deselect All' : 'Select All'}
-          </button>
-        )}
+        <div className="flex gap-2">
+          {actions}
+          {onSelectAll && hasFrames && (
+            <button
+              onClick={onSelectAll}
+              className="px-3 py-1 text-sm font-medium text-purple-300 bg-gray-700/60 rounded-md hover:bg-gray-600/60 transition-colors focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {isAllSelected ? 'Deselect All' : 'Select All'}
+            </button>
+          )}
+        </div>
       </div>
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
         {frames.map((frame, index) => {
           if (!frame) return <div key={index} className="bg-gray-800 rounded-lg" style={{ aspectRatio: aspectRatio ? `${aspectRatio}` : '1' }}></div>; // Render a placeholder for missing regenerated frames
           
           const isSelected = selectedFrames?.has(index);
+          const frameMetadata = metadata?.[index];
+          const timestamp = frameMetadata?.timestamp;
           
           return (
             <button
@@ -69,6 +90,21 @@ const Gallery: React.FC<GalleryProps> = ({
               <div className="absolute bottom-0 left-0 bg-black/50 text-white text-xs px-2 py-1 rounded-tr-lg">
                 Frame {index + 1}
               </div>
+              {frameMetadata && timestamp !== undefined && (
+                <button
+                  onClick={(e) => handleSeekClick(e, timestamp)}
+                  disabled={!onSeek}
+                  title={[
+                    ...describeFrameMetadata(frameMetadata).map(({ label, value }) => `${label}: ${value}`),
+                    ...(onSeek ? ['Click to jump to this moment in the video'] : []),
+                  ].join('\n')}
+                  className="absolute top-0 left-0 bg-black/50 text-white text-xs font-mono px-2 py-1 rounded-br-lg hover:bg-purple-600 disabled:hover:bg-black/50 transition-colors focus:outline-none focus:ring-2 focus:ring-white"
+                  aria-label={`Jump to ${formatTimestamp(timestamp)} in the video`}
+                >
+                  {formatTimestamp(timestamp)}
+                  {frameMetadata.frameNumber !== undefined && <span className="text-gray-300"> · #{frameMetadata.frameNumber}</span>}
+                </button>
+              )}
               {onFramePreview && (
                 <button
                   onClick={(e) => handlePreviewClick(e, frame)}
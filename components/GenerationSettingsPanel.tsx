@@ -0,0 +1,176 @@
+import React from 'react';
+import { GenerationSettings, PersonGeneration, SafetyLevel } from '../types';
+import { ProviderModels } from '../services/imageProvider';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  /** The active provider's model versions; empty lists when it has no model choice. */
+  models: ProviderModels;
+  onChange: (settings: GenerationSettings) => void;
+  disabled: boolean;
+}
+
+const SAFETY_LEVELS: Array<{ value: SafetyLevel; label: string }> = [
+  { value: 'MODEL_DEFAULT', label: 'Model default' },
+  { value: 'BLOCK_LOW_AND_ABOVE', label: 'Strict (block low risk and above)' },
+  { value: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Standard (block medium risk and above)' },
+  { value: 'BLOCK_ONLY_HIGH', label: 'Relaxed (block only high risk)' },
+  { value: 'BLOCK_NONE', label: 'Off (where the API allows it)' },
+];
+
+const PERSON_GENERATION_OPTIONS: Array<{ value: PersonGeneration; label: string }> = [
+  { value: 'MODEL_DEFAULT', label: 'Model default' },
+  { value: 'DONT_ALLOW', label: 'No people' },
+  { value: 'ALLOW_ADULT', label: 'Adults only' },
+  { value: 'ALLOW_ALL', label: 'Adults and children' },
+];
+
+const selectClassName = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed";
+const inputClassName = "w-28 bg-gray-700 border border-gray-600 rounded-md px-3 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50";
+
+/** Parses an optional number field; an empty field means "use the default". */
+const parseOptionalNumber = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+/** The temperature range the Gemini API accepts. */
+const MIN_TEMPERATURE = 0;
+const MAX_TEMPERATURE = 2;
+
+/** Parses the temperature field, clamped to the API's range; anything unparseable means the default. */
+const parseTemperature = (value: string): number | null => {
+  const temperature = parseOptionalNumber(value);
+  return temperature === null || !Number.isFinite(temperature) ? null : Math.min(MAX_TEMPERATURE, Math.max(MIN_TEMPERATURE, temperature));
+};
+
+/** The largest seed the Gemini API accepts, a signed 32-bit integer. */
+const MAX_SEED = 2147483647;
+
+/** Parses the seed field as a whole number within the API's range; anything else means a random seed. */
+const parseSeed = (value: string): number | null => {
+  const seed = parseOptionalNumber(value);
+  return seed === null || !Number.isFinite(seed) || seed < 0 ? null : Math.min(MAX_SEED, Math.round(seed));
+};
+
+const ModelSelect: React.FC<{
+  id: string;
+  label: string;
+  value: string;
+  options: string[];
+  onChange: (model: string) => void;
+  disabled: boolean;
+}> = ({ id, label, value, options, onChange, disabled }) => (
+  <div>
+    <label htmlFor={id} className="block text-sm text-gray-300 mb-1">{label}</label>
+    <select id={id} value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled || options.length === 0} className={selectClassName}>
+      {/* A model saved with the project stays selectable even if it is no longer listed. */}
+      {(options.includes(value) ? options : [value, ...options]).map(model => (
+        <option key={model} value={model}>{model}</option>
+      ))}
+    </select>
+  </div>
+);
+
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, models, onChange, disabled }) => {
+  const update = (changes: Partial<GenerationSettings>) => onChange({ ...settings, ...changes });
+  const hasModelChoice = models.text.length > 0 || models.image.length > 0 || models.textToImage.length > 0;
+
+  return (
+    <details className="max-w-lg mx-auto text-left bg-gray-700/30 border border-gray-600 rounded-lg p-4">
+      <summary className="text-sm font-medium text-gray-300 cursor-pointer">Models & Generation Settings</summary>
+      <div className="space-y-5 mt-4">
+        <div className="space-y-3">
+          {!hasModelChoice && (
+            <p className="text-xs text-gray-400">The selected provider has no model choice; these models are kept for when you switch back.</p>
+          )}
+          <ModelSelect id="text-model" label="Description & Translation Model" value={settings.textModel} options={models.text} onChange={(textModel) => update({ textModel })} disabled={disabled} />
+          <ModelSelect id="image-model" label="Image-to-Image & Edit Model" value={settings.imageModel} options={models.image} onChange={(imageModel) => update({ imageModel })} disabled={disabled} />
+          <ModelSelect id="text-to-image-model" label="Text-to-Image Model" value={settings.textToImageModel} options={models.textToImage} onChange={(textToImageModel) => update({ textToImageModel })} disabled={disabled} />
+        </div>
+
+        <div>
+          <div className="flex gap-4">
+            <div>
+              <label htmlFor="generation-temperature" className="block text-sm text-gray-300 mb-1">Temperature</label>
+              <input
+                id="generation-temperature"
+                type="number"
+                min={MIN_TEMPERATURE}
+                max={MAX_TEMPERATURE}
+                step="0.1"
+                placeholder="Default"
+                value={settings.temperature ?? ''}
+                onChange={(e) => update({ temperature: parseTemperature(e.target.value) })}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="generation-seed" className="block text-sm text-gray-300 mb-1">Seed</label>
+              <input
+                id="generation-seed"
+                type="number"
+                min="0"
+                max={MAX_SEED}
+                step="1"
+                placeholder="Random"
+                value={settings.seed ?? ''}
+                onChange={(e) => update({ seed: parseSeed(e.target.value) })}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-400 mt-2">
+            Leave empty for the model's defaults. Only Gemini uses these; Imagen ignores them. A fixed seed makes results more repeatable, not identical.
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Imagen Output Format</label>
+          <div className="flex gap-4 text-sm text-gray-200">
+            <label className="flex items-center gap-2">
+              <input type="radio" name="imagen-output" checked={settings.outputMimeType === 'image/jpeg'} onChange={() => update({ outputMimeType: 'image/jpeg' })} disabled={disabled} />
+              JPEG
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="imagen-output" checked={settings.outputMimeType === 'image/png'} onChange={() => update({ outputMimeType: 'image/png' })} disabled={disabled} />
+              PNG <span className="text-gray-400">(lossless, larger)</span>
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="person-generation" className="block text-sm text-gray-300 mb-1">People in Imagen Results</label>
+          <select
+            id="person-generation"
+            value={settings.personGeneration}
+            onChange={(e) => update({ personGeneration: e.target.value as PersonGeneration })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {PERSON_GENERATION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="safety-level" className="block text-sm text-gray-300 mb-1">Safety Filter</label>
+          <select
+            id="safety-level"
+            value={settings.safetyLevel}
+            onChange={(e) => update({ safetyLevel: e.target.value as SafetyLevel })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {SAFETY_LEVELS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-400 mt-2">Some models only accept certain levels; a request the API rejects shows its error in the queue.</p>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default GenerationSettingsPanel;
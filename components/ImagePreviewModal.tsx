@@ -1,52 +1,317 @@
-import React, { useEffect, useCallback, useState } from 'react';
+import React, { useEffect, useCallback, useRef, useState } from 'react';
+import { FrameMetadata, FrameVersion, PreviewItem, VersionHistory } from '../types';
+import { describeFrameMetadata } from '../utils/frameMetadata';
+import { flattenVersionTree, getRootVersionId, MAX_VERSIONS } from '../utils/frameVersions';
+import { createMaskImage, hasMaskedPixels } from '../utils/maskCompositor';
+import MaskEditor from './MaskEditor';
 
 interface ImagePreviewModalProps {
-  items: Array<{ src: string; prompt?: string; translatedPrompt?: string; }>;
+  items: PreviewItem[];
   startIndex?: number;
   onClose: () => void;
   isEditable?: boolean;
-  onEdit?: (currentSrc: string, prompt: string) => Promise<void>;
+  /** Applies a prompt edit; when a mask is given (a black-and-white PNG data URL), only its white area may change. */
+  onEdit?: (currentSrc: string, prompt: string, mask?: string) => Promise<void>;
+  /** Makes any version of a regenerated image current, including its other variations. */
+  onSelectVersion?: (currentSrc: string, versionId: string) => void;
+  onUndo?: (currentSrc: string) => void;
+  onRedo?: (currentSrc: string) => void;
   onDescribe?: (currentSrc: string) => Promise<void>;
   onTranslate?: (currentSrc: string) => Promise<void>;
+  /** Saves a hand-edited prompt for an original frame; an empty prompt clears it. */
+  onUpdatePrompt?: (currentSrc: string, prompt: string) => void;
+  /** Jumps the video preview to a frame's timestamp. */
+  onSeek?: (time: number) => void;
 }
 
+type CompareMode = 'single' | 'side-by-side' | 'wipe' | 'onion';
+
+const COMPARE_MODES: Array<{ mode: CompareMode; label: string }> = [
+    { mode: 'single', label: 'Single' },
+    { mode: 'side-by-side', label: 'Side by Side' },
+    { mode: 'wipe', label: 'Wipe' },
+    { mode: 'onion', label: 'Onion Skin' },
+];
+
+const CompareLabel = ({ children, className }: { children: React.ReactNode, className: string }) => (
+    <span className={`absolute top-3 px-2 py-0.5 text-xs font-semibold text-white bg-gray-900/70 rounded pointer-events-none ${className}`}>
+        {children}
+    </span>
+);
+
+/**
+ * Shows a regenerated image next to or over the frame it was made from.
+ * Both images use object-contain in the same box so they line up for wipe and onion skin.
+ */
+const CompareView = ({ originalSrc, regeneratedSrc, mode, wipePosition, onWipeChange, onionOpacity }: {
+    originalSrc: string,
+    regeneratedSrc: string,
+    mode: Exclude<CompareMode, 'single'>,
+    wipePosition: number,
+    onWipeChange: (position: number) => void,
+    onionOpacity: number
+}) => {
+    const updateWipe = (event: React.PointerEvent<HTMLDivElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        onWipeChange(Math.min(100, Math.max(0, ((event.clientX - rect.left) / rect.width) * 100)));
+    };
+
+    if (mode === 'side-by-side') {
+        return (
+            <div className="absolute inset-0 flex">
+                <div className="relative w-1/2 h-full flex items-center justify-center border-r border-gray-700">
+                    <img src={originalSrc} alt="Original frame" className="max-w-full max-h-full object-contain" />
+                    <CompareLabel className="left-3">Original</CompareLabel>
+                </div>
+                <div className="relative w-1/2 h-full flex items-center justify-center">
+                    <img src={regeneratedSrc} alt="Regenerated frame" className="max-w-full max-h-full object-contain" />
+                    <CompareLabel className="right-14">Regenerated</CompareLabel>
+                </div>
+            </div>
+        );
+    }
+
+    if (mode === 'onion') {
+        return (
+            <div className="absolute inset-0">
+                <img src={originalSrc} alt="Original frame" className="absolute inset-0 w-full h-full object-contain" />
+                <img src={regeneratedSrc} alt="Regenerated frame" className="absolute inset-0 w-full h-full object-contain" style={{ opacity: onionOpacity / 100 }} />
+                <CompareLabel className="left-3">Original {100 - onionOpacity}% / Regenerated {onionOpacity}%</CompareLabel>
+            </div>
+        );
+    }
+
+    return (
+        <div
+            className="absolute inset-0 cursor-ew-resize select-none touch-none"
+            onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                updateWipe(e);
+            }}
+            onPointerMove={(e) => {
+                if (e.currentTarget.hasPointerCapture(e.pointerId)) updateWipe(e);
+            }}
+        >
+            <img src={originalSrc} alt="Original frame" draggable={false} className="absolute inset-0 w-full h-full object-contain" />
+            <img
+                src={regeneratedSrc}
+                alt="Regenerated frame"
+                draggable={false}
+                className="absolute inset-0 w-full h-full object-contain"
+                style={{ clipPath: `inset(0 0 0 ${wipePosition}%)` }}
+            />
+            <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${wipePosition}%` }}>
+                <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 left-1/2 w-8 h-8 rounded-full bg-white text-gray-900 flex items-center justify-center shadow-lg">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M8 7l-5 5 5 5M16 7l5 5-5 5" />
+                    </svg>
+                </div>
+            </div>
+            <CompareLabel className="left-3">Original</CompareLabel>
+            <CompareLabel className="right-14">Regenerated</CompareLabel>
+        </div>
+    );
+};
+
+/** Describes how a version was made: its model version and any fixed temperature or seed. */
+const describeGeneration = (version: FrameVersion): string | undefined => {
+    if (version.provider === 'mock') return 'mock';
+    const { generation } = version;
+    if (!generation) return version.model;
+    const modelVersion = version.model === 'imagen' ? generation.textToImageModel : generation.imageModel;
+    return [
+        modelVersion,
+        generation.temperature !== null ? `temp ${generation.temperature}` : undefined,
+        generation.seed !== null ? `seed ${generation.seed}` : undefined,
+    ].filter(Boolean).join(' · ');
+};
+
+const VersionHistoryContent = ({ history, onRevert, onBranch }: {
+    history: VersionHistory,
+    onRevert?: (versionId: string) => void,
+    onBranch?: (versionId: string) => void
+}) => (
+    <div className="mt-6">
+        <h3 className="text-lg font-semibold text-amber-300 mb-3 border-b border-gray-700 pb-2">Version History</h3>
+        <ul className="space-y-1">
+            {flattenVersionTree(history.versions).map(({ version, depth }) => {
+                const isCurrent = version.id === history.currentVersionId;
+                const details = [describeGeneration(version), version.createdAt ? new Date(version.createdAt).toLocaleString() : undefined].filter(Boolean).join(' · ');
+                return (
+                    <li
+                        key={version.id}
+                        className={`flex items-center gap-2 rounded-md p-1.5 ${isCurrent ? 'bg-amber-500/10 ring-1 ring-amber-500/60' : ''}`}
+                        style={{ marginLeft: depth * 16 }}
+                    >
+                        <img src={version.src} alt="" className="h-10 w-10 rounded object-cover flex-shrink-0" />
+                        <div className="flex-grow min-w-0">
+                            <p className="text-sm text-gray-200 truncate" title={version.prompt}>
+                                {version.kind === 'edit' ? `Edit: ${version.prompt}` : version.style ?? 'Regenerated'}
+                            </p>
+                            {details && <p className="text-xs text-gray-500 truncate">{details}</p>}
+                        </div>
+                        {isCurrent ? (
+                            <span className="text-xs font-semibold text-amber-300 flex-shrink-0">Current</span>
+                        ) : (
+                            <div className="flex gap-1 flex-shrink-0">
+                                {onRevert && (
+                                    <button onClick={() => onRevert(version.id)} className="px-2 py-0.5 text-xs text-gray-200 bg-gray-700 rounded hover:bg-gray-600 transition-colors" title="Make this version current">
+                                        Revert
+                                    </button>
+                                )}
+                                {onBranch && (
+                                    <button onClick={() => onBranch(version.id)} className="px-2 py-0.5 text-xs text-gray-200 bg-gray-700 rounded hover:bg-gray-600 transition-colors" title="Edit this version, keeping the others">
+                                        Branch
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+        {history.versions.length >= MAX_VERSIONS && (
+            <p className="text-xs text-gray-500 mt-2">Only the latest {MAX_VERSIONS} versions are kept; older ones are dropped as new ones are added.</p>
+        )}
+    </div>
+);
+
+const FrameInfoContent = ({ item, onSeek }: { item: FrameMetadata, onSeek?: (time: number) => void }) => {
+    const rows = describeFrameMetadata(item);
+    const timestamp = item.timestamp;
+    return (
+        <div className="mb-6">
+            <h3 className="text-lg font-semibold text-blue-300 mb-3 border-b border-gray-700 pb-2">Source Frame</h3>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                {rows.map(({ label, value }) => (
+                    <React.Fragment key={label}>
+                        <dt className="text-gray-400">{label}</dt>
+                        <dd className="text-gray-200 font-mono text-right">{value}</dd>
+                    </React.Fragment>
+                ))}
+            </dl>
+            {onSeek && timestamp !== undefined && (
+                <button
+                    onClick={() => onSeek(timestamp)}
+                    className="mt-4 w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-colors"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+                    </svg>
+                    Show in Video
+                </button>
+            )}
+        </div>
+    );
+};
+
+const PromptEditor = ({ prompt, onSave, onCancel }: { prompt: string, onSave: (prompt: string) => void, onCancel: () => void }) => {
+    const [draft, setDraft] = useState(prompt);
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        // Keep typing from reaching the modal's navigation shortcuts.
+        event.stopPropagation();
+        if (event.key === 'Escape') onCancel();
+    };
+
+    return (
+        <div className="space-y-2">
+            <textarea
+                aria-label="Generation prompt"
+                rows={8}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                autoFocus
+                className="w-full bg-gray-900 text-gray-200 text-sm font-mono rounded-md p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none border-gray-700 border resize-y"
+            />
+            <div className="flex justify-end gap-2">
+                <button onClick={onCancel} className="px-3 py-1 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">Cancel</button>
+                <button
+                    onClick={() => onSave(draft)}
+                    disabled={draft.trim() === prompt.trim()}
+                    className="px-3 py-1 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Save Prompt
+                </button>
+            </div>
+        </div>
+    );
+};
+
 const PromptInfoContent = ({
-    item, onCopyPrompt, copySuccess, onCopyTranslatedPrompt, copySuccessTranslated
+    item, onCopyPrompt, copySuccess, onCopyTranslatedPrompt, copySuccessTranslated, onSeek, onUpdatePrompt
 }: {
-    item: { prompt?: string; translatedPrompt?: string; },
+    item: { prompt?: string; promptEdited?: boolean; translatedPrompt?: string; } & FrameMetadata,
     onCopyPrompt: () => void,
     copySuccess: boolean,
     onCopyTranslatedPrompt: () => void,
-    copySuccessTranslated: boolean
-}) => (
+    copySuccessTranslated: boolean,
+    onSeek?: (time: number) => void,
+    onUpdatePrompt?: (prompt: string) => void
+}) => {
+    const [isEditingPrompt, setIsEditingPrompt] = useState(false);
+
+    useEffect(() => {
+        setIsEditingPrompt(false);
+    }, [item]);
+
+    return (
     <>
-        <div>
-            <h3 className="text-lg font-semibold text-purple-300 mb-3 border-b border-gray-700 pb-2">Generation Prompt</h3>
-            <p className="text-gray-300 text-sm whitespace-pre-wrap font-mono break-words leading-relaxed">
-                {item.prompt}
-            </p>
-            <button
-                onClick={onCopyPrompt}
-                className="mt-4 w-full flex-shrink-0 flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-colors disabled:bg-green-600"
-                disabled={copySuccess}
-            >
-                {copySuccess ? (
-                    <>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
-                        Copied!
-                    </>
+        {describeFrameMetadata(item).length > 0 && <FrameInfoContent item={item} onSeek={onSeek} />}
+
+        {(item.prompt || onUpdatePrompt) && (
+            <div>
+                <div className="flex items-center gap-2 mb-3 border-b border-gray-700 pb-2">
+                    <h3 className="text-lg font-semibold text-purple-300">Generation Prompt</h3>
+                    {item.promptEdited && <span className="px-1.5 py-0.5 text-xs rounded bg-amber-500/20 text-amber-300 font-semibold">Edited</span>}
+                    {onUpdatePrompt && !isEditingPrompt && (
+                        <button onClick={() => setIsEditingPrompt(true)} className="ml-auto px-2 py-0.5 text-xs text-gray-200 bg-gray-700 rounded hover:bg-gray-600 transition-colors">
+                            {item.prompt ? 'Edit' : 'Add Prompt'}
+                        </button>
+                    )}
+                </div>
+                {isEditingPrompt && onUpdatePrompt ? (
+                    <PromptEditor
+                        prompt={item.prompt ?? ''}
+                        onSave={(prompt) => {
+                            setIsEditingPrompt(false);
+                            onUpdatePrompt(prompt);
+                        }}
+                        onCancel={() => setIsEditingPrompt(false)}
+                    />
+                ) : item.prompt ? (
+                    <p className="text-gray-300 text-sm whitespace-pre-wrap font-mono break-words leading-relaxed">
+                        {item.prompt}
+                    </p>
                 ) : (
-                    <>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                        </svg>
-                        Copy Prompt
-                    </>
+                    <p className="text-gray-500 text-sm">No prompt yet. Describe the frame, or add one yourself.</p>
                 )}
-            </button>
-        </div>
+                {item.prompt && (
+                    <button
+                        onClick={onCopyPrompt}
+                        className="mt-4 w-full flex-shrink-0 flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-colors disabled:bg-green-600"
+                        disabled={copySuccess}
+                    >
+                        {copySuccess ? (
+                            <>
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                                </svg>
+                                Copied!
+                            </>
+                        ) : (
+                            <>
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                                </svg>
+                                Copy Prompt
+                            </>
+                        )}
+                    </button>
+                )}
+            </div>
+        )}
 
         {item.translatedPrompt && (
             <div className="mt-6">
@@ -78,11 +343,14 @@ const PromptInfoContent = ({
             </div>
         )}
     </>
-);
+    );
+};
 
-const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex = 0, onClose, isEditable = false, onEdit, onDescribe, onTranslate }) => {
+const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex = 0, onClose, isEditable = false, onEdit, onSelectVersion, onUndo, onRedo, onDescribe, onTranslate, onUpdatePrompt, onSeek }) => {
   const [currentIndex, setCurrentIndex] = useState(startIndex);
   const [isEditing, setIsEditing] = useState(false);
+  const [isMasking, setIsMasking] = useState(false);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
   const [prompt, setPrompt] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDescribing, setIsDescribing] = useState(false);
@@ -90,15 +358,56 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex
   const [copySuccess, setCopySuccess] = useState(false);
   const [copySuccessTranslated, setCopySuccessTranslated] = useState(false);
   const [isInfoPanelVisible, setIsInfoPanelVisible] = useState(false);
+  // Compare settings persist while navigating, so frames can be stepped through in the same view.
+  const [compareMode, setCompareMode] = useState<CompareMode>('single');
+  const [wipePosition, setWipePosition] = useState(50);
+  const [onionOpacity, setOnionOpacity] = useState(50);
+  // The variation being looked at, when it isn't the current version.
+  const [viewedCandidate, setViewedCandidate] = useState<number | null>(null);
+  // Set when branching, so edit mode opens once the branched-from version becomes current.
+  const isBranchingRef = useRef(false);
 
 
   useEffect(() => {
     // When the image source changes (e.g., after an edit), reset the editing state.
-    setIsEditing(false);
+    setIsEditing(isBranchingRef.current);
+    isBranchingRef.current = false;
     setPrompt('');
+    setIsMasking(false);
     setIsInfoPanelVisible(false);
+    setViewedCandidate(null);
   }, [items[currentIndex]]);
 
+  const history = items[currentIndex]?.history;
+  const candidates = history?.versions.filter(version => version.kind === 'regenerate') ?? [];
+  // Edits count as the variation they were made from.
+  const rootVersionId = history ? getRootVersionId(history.versions, history.currentVersionId) : undefined;
+  const chosenCandidate = candidates.findIndex(candidate => candidate.id === rootVersionId);
+  const viewedCandidateIndex = viewedCandidate ?? chosenCandidate;
+
+  const stepVariation = useCallback((step: number) => {
+    if (candidates.length < 2) return;
+    const from = viewedCandidateIndex === -1 ? 0 : viewedCandidateIndex;
+    setViewedCandidate((from + step + candidates.length) % candidates.length);
+  }, [candidates.length, viewedCandidateIndex]);
+
+  const handleUndo = useCallback(() => {
+    if (history?.canUndo) onUndo?.(items[currentIndex].src);
+  }, [history, onUndo, items, currentIndex]);
+
+  const handleRedo = useCallback(() => {
+    if (history?.canRedo) onRedo?.(items[currentIndex].src);
+  }, [history, onRedo, items, currentIndex]);
+
+  const handleBranch = (versionId: string) => {
+    if (versionId === history?.currentVersionId) {
+      setIsEditing(true);
+      return;
+    }
+    isBranchingRef.current = true;
+    onSelectVersion?.(items[currentIndex].src, versionId);
+  };
+
   const goToNext = useCallback(() => {
     if (isEditing || isDescribing || isTranslating) return;
     setCurrentIndex((prevIndex) => (prevIndex + 1) % items.length);
@@ -121,14 +430,32 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex
         onClose();
       }
     }
-    if (items.length > 1 && !isEditing && !isTranslating && !isInfoPanelVisible) {
+    // Arrow keys on a focused slider adjust the slider instead of changing images.
+    const isSliderFocused = event.target instanceof HTMLInputElement && event.target.type === 'range';
+    if (items.length > 1 && !isEditing && !isTranslating && !isInfoPanelVisible && !isSliderFocused) {
         if (event.key === 'ArrowRight') {
           goToNext();
         } else if (event.key === 'ArrowLeft') {
           goToPrev();
         }
     }
-  }, [onClose, goToNext, goToPrev, items.length, isEditing, isTranslating, isInfoPanelVisible]);
+    if (isEditable && !isEditing && (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) handleRedo(); else handleUndo();
+    } else if (isEditable && !isEditing && (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'y') {
+        event.preventDefault();
+        handleRedo();
+    }
+    if (!isEditing && !isInfoPanelVisible && !isSliderFocused) {
+        if (event.key === 'ArrowDown') {
+          event.preventDefault();
+          stepVariation(1);
+        } else if (event.key === 'ArrowUp') {
+          event.preventDefault();
+          stepVariation(-1);
+        }
+    }
+  }, [onClose, goToNext, goToPrev, stepVariation, handleUndo, handleRedo, items.length, isEditable, isEditing, isTranslating, isInfoPanelVisible]);
 
   useEffect(() => {
     document.addEventListener('keydown', handleKeyDown);
@@ -139,9 +466,15 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex
   
   const handleSubmitEdit = async () => {
     if (!onEdit || !prompt) return;
+    const maskCanvas = maskCanvasRef.current;
+    if (isMasking && maskCanvas && !hasMaskedPixels(maskCanvas)) {
+        alert('Paint the area to change first, or turn off the mask to edit the whole image.');
+        return;
+    }
+    const mask = isMasking && maskCanvas ? createMaskImage(maskCanvas) : undefined;
     setIsSubmitting(true);
     try {
-        await onEdit(items[currentIndex].src, prompt);
+        await onEdit(items[currentIndex].src, prompt, mask);
         // On success, state is reset by the useEffect that watches items
     } catch (error) {
         console.error("Failed to apply edits.", error);
@@ -200,6 +533,11 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex
   }
 
   const currentItem = items[currentIndex];
+  const hasInfo = !!currentItem.prompt || describeFrameMetadata(currentItem).length > 0 || !!history;
+  const activeCompareMode = currentItem.originalSrc ? compareMode : 'single';
+  const viewedVersion = viewedCandidate !== null ? candidates[viewedCandidate] : undefined;
+  const displayedSrc = viewedVersion?.src ?? currentItem.src;
+  const isViewingOtherVariation = !!viewedVersion && viewedVersion.id !== history?.currentVersionId;
 
   return (
     <div
@@ -215,7 +553,36 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex
       >
         {/* Image Display Panel */}
         <div className="relative flex-grow flex items-center justify-center bg-black/50">
-            <img src={currentItem.src} alt={`Full size preview ${currentIndex + 1} of ${items.length}`} className="w-auto h-auto max-w-full max-h-full object-contain" />
+            {isEditing && isMasking ? (
+                <MaskEditor src={currentItem.src} canvasRef={maskCanvasRef} disabled={isSubmitting} />
+            ) : activeCompareMode === 'single' || !currentItem.originalSrc ? (
+                <img src={displayedSrc} alt={`Full size preview ${currentIndex + 1} of ${items.length}`} className="w-auto h-auto max-w-full max-h-full object-contain" />
+            ) : (
+                <CompareView
+                    originalSrc={currentItem.originalSrc}
+                    regeneratedSrc={displayedSrc}
+                    mode={activeCompareMode}
+                    wipePosition={wipePosition}
+                    onWipeChange={setWipePosition}
+                    onionOpacity={onionOpacity}
+                />
+            )}
+
+            {/* Compare mode selector */}
+            {currentItem.originalSrc && !isEditing && (
+                <div className="absolute top-2 left-2 flex bg-gray-800/80 backdrop-blur-sm rounded-full p-1 z-30" role="group" aria-label="Compare with original">
+                    {COMPARE_MODES.map(({ mode, label }) => (
+                        <button
+                            key={mode}
+                            onClick={() => setCompareMode(mode)}
+                            aria-pressed={compareMode === mode}
+                            className={`px-3 py-1 text-xs font-semibold rounded-full transition-colors ${compareMode === mode ? 'bg-purple-600 text-white' : 'text-gray-300 hover:text-white'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
             
             {/* Close Button */}
             <button
@@ -228,11 +595,45 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex
             </svg>
             </button>
 
+            {/* Variations */}
+            {candidates.length > 1 && !isEditing && (
+                <div className="absolute bottom-20 left-1/2 -translate-x-1/2 max-w-full px-4 z-20">
+                    <div className="flex items-center gap-2 bg-gray-900/70 backdrop-blur-sm rounded-lg p-2 overflow-x-auto">
+                        {candidates.map((candidate, index) => (
+                            <button
+                                key={index}
+                                onClick={() => setViewedCandidate(index)}
+                                className={`relative flex-shrink-0 rounded-md overflow-hidden border-2 transition-colors ${index === viewedCandidateIndex ? 'border-purple-500' : 'border-transparent hover:border-gray-500'}`}
+                                aria-label={`Show variation ${index + 1}${index === chosenCandidate ? ' (current)' : ''}`}
+                                aria-pressed={index === viewedCandidateIndex}
+                            >
+                                <img src={candidate.src} alt="" className="h-12 w-auto" />
+                                {index === chosenCandidate && (
+                                    <span className="absolute top-0.5 right-0.5 bg-green-600 rounded-full p-0.5">
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 text-white" viewBox="0 0 20 20" fill="currentColor">
+                                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                                        </svg>
+                                    </span>
+                                )}
+                            </button>
+                        ))}
+                        {isViewingOtherVariation && viewedVersion && onSelectVersion && (
+                            <button
+                                onClick={() => onSelectVersion(currentItem.src, viewedVersion.id)}
+                                className="flex-shrink-0 px-3 py-2 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-500 transition-colors"
+                            >
+                                Use This
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+
             {/* Bottom controls */}
             <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-full max-w-2xl px-4 z-20">
                 {!isEditing ? (
                     <div className="flex justify-center items-center gap-4 bg-gray-900/60 backdrop-blur-sm rounded-full px-4 py-2 transition-opacity">
-                        {isEditable && (
+                        {isEditable && !isViewingOtherVariation && (
                             <button 
                                 onClick={() => setIsEditing(true)} 
                                 className="flex items-center gap-2 text-white hover:text-purple-400 transition-colors p-1"
@@ -245,6 +646,32 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex
                             <span className="hidden sm:inline text-sm font-medium">Edit</span>
                             </button>
                         )}
+                        {isEditable && history && (onUndo || onRedo) && (
+                            <>
+                                <button
+                                    onClick={handleUndo}
+                                    disabled={!history.canUndo}
+                                    title="Undo (Ctrl+Z)"
+                                    className="text-white hover:text-purple-400 transition-colors p-1 disabled:opacity-40 disabled:hover:text-white"
+                                    aria-label="Undo"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a5 5 0 015 5v0a5 5 0 01-5 5H9M3 10l5-5M3 10l5 5" />
+                                    </svg>
+                                </button>
+                                <button
+                                    onClick={handleRedo}
+                                    disabled={!history.canRedo}
+                                    title="Redo (Ctrl+Shift+Z)"
+                                    className="text-white hover:text-purple-400 transition-colors p-1 disabled:opacity-40 disabled:hover:text-white"
+                                    aria-label="Redo"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M21 10H11a5 5 0 00-5 5v0a5 5 0 005 5h4M21 10l-5-5M21 10l-5 5" />
+                                    </svg>
+                                </button>
+                            </>
+                        )}
                         {!isEditable && onDescribe && !currentItem.prompt && (
                             <button 
                                 onClick={handleDescribeClick} 
@@ -273,16 +700,38 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex
                             <span className="hidden sm:inline text-sm font-medium">{isTranslating ? 'Translating...' : 'Translate'}</span>
                             </button>
                         )}
-                        {currentItem.prompt && (
+                        {hasInfo && (
                             <button 
                                 onClick={() => setIsInfoPanelVisible(p => !p)} 
                                 className="flex md:hidden items-center gap-2 text-white hover:text-purple-400 transition-colors p-1"
-                                aria-label="Toggle prompt information"
+                                aria-label="Toggle frame information"
                             >
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" /></svg>
                                 <span className="hidden sm:inline text-sm font-medium">Info</span>
                             </button>
                         )}
+                        {activeCompareMode === 'onion' && (
+                            <input
+                                type="range"
+                                min="0"
+                                max="100"
+                                value={onionOpacity}
+                                onChange={(e) => setOnionOpacity(Number(e.target.value))}
+                                className="w-28 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                                aria-label="Regenerated image opacity"
+                            />
+                        )}
+                        {activeCompareMode === 'wipe' && (
+                            <input
+                                type="range"
+                                min="0"
+                                max="100"
+                                value={wipePosition}
+                                onChange={(e) => setWipePosition(Number(e.target.value))}
+                                className="w-28 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                                aria-label="Wipe position"
+                            />
+                        )}
                         {items.length > 1 && (isEditable || (!isEditable && onDescribe && !currentItem.prompt)) && <div className="w-px h-4 bg-gray-600"></div>}
                         {items.length > 1 && (
                             <div className="text-white text-sm font-mono">
@@ -301,7 +750,11 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex
                             onChange={(e) => setPrompt(e.target.value)}
                             disabled={isSubmitting}
                         />
-                        <div className="flex justify-end gap-2">
+                        <div className="flex items-center justify-end gap-2">
+                            <label className="mr-auto flex items-center gap-2 text-sm text-gray-200">
+                                <input type="checkbox" checked={isMasking} onChange={(e) => setIsMasking(e.target.checked)} disabled={isSubmitting} />
+                                Only change a painted area
+                            </label>
                             <button onClick={() => setIsEditing(false)} disabled={isSubmitting} className="px-4 py-1 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">Cancel</button>
                             <button onClick={handleSubmitEdit} disabled={!prompt || isSubmitting} className="px-4 py-1 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
                                 {isSubmitting ? 'Applying...' : 'Apply Changes'}
@@ -346,8 +799,8 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex
             )}
         </div>
 
-        {/* Prompt Info Panel */}
-        {currentItem.prompt && (
+        {/* Frame and Prompt Info Panel */}
+        {hasInfo && (
           <>
             {/* Mobile Info Panel (Drawer) */}
             <div className={`
@@ -368,7 +821,16 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex
                 copySuccess={copySuccess}
                 onCopyTranslatedPrompt={handleCopyTranslatedPrompt}
                 copySuccessTranslated={copySuccessTranslated}
+                onSeek={onSeek}
+                onUpdatePrompt={!isEditable && onUpdatePrompt ? (prompt) => onUpdatePrompt(currentItem.src, prompt) : undefined}
               />
+              {history && (
+                <VersionHistoryContent
+                  history={history}
+                  onRevert={onSelectVersion && ((versionId) => onSelectVersion(currentItem.src, versionId))}
+                  onBranch={isEditable && onEdit ? handleBranch : undefined}
+                />
+              )}
             </div>
 
             {/* Desktop Info Panel (Sidebar) */}
@@ -380,7 +842,16 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ items, startIndex
                     copySuccess={copySuccess}
                     onCopyTranslatedPrompt={handleCopyTranslatedPrompt}
                     copySuccessTranslated={copySuccessTranslated}
+                    onSeek={onSeek}
+                    onUpdatePrompt={!isEditable && onUpdatePrompt ? (prompt) => onUpdatePrompt(currentItem.src, prompt) : undefined}
                   />
+                  {history && (
+                    <VersionHistoryContent
+                      history={history}
+                      onRevert={onSelectVersion && ((versionId) => onSelectVersion(currentItem.src, versionId))}
+                      onBranch={isEditable && onEdit ? handleBranch : undefined}
+                    />
+                  )}
                 </div>
             </div>
           </>
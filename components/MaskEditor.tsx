@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface MaskEditorProps {
+  src: string;
+  /** The canvas the mask is painted on, at the image's natural resolution. Read by the parent on submit. */
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  disabled?: boolean;
+}
+
+type MaskTool = 'brush' | 'lasso' | 'erase';
+
+const MASK_TOOLS: Array<{ tool: MaskTool; label: string }> = [
+  { tool: 'brush', label: 'Brush' },
+  { tool: 'lasso', label: 'Lasso' },
+  { tool: 'erase', label: 'Erase' },
+];
+
+const MASK_COLOR = '#ef4444';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface DisplayRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Shows an image with a canvas over it for painting the area an edit may change.
+ * The canvas is placed over the letterboxed image, so strokes line up with its pixels.
+ */
+const MaskEditor: React.FC<MaskEditorProps> = ({ src, canvasRef, disabled = false }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [displayRect, setDisplayRect] = useState<DisplayRect | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  // Lasso points in display pixels, relative to the canvas.
+  const [lassoPoints, setLassoPoints] = useState<Point[]>([]);
+  const lastPointRef = useRef<Point | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !naturalSize) return;
+
+    const updateRect = () => {
+      const scale = Math.min(container.clientWidth / naturalSize.width, container.clientHeight / naturalSize.height);
+      const width = naturalSize.width * scale;
+      const height = naturalSize.height * scale;
+      setDisplayRect({ left: (container.clientWidth - width) / 2, top: (container.clientHeight - height) / 2, width, height });
+    };
+    updateRect();
+    const observer = new ResizeObserver(updateRect);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [naturalSize]);
+
+  const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = event.currentTarget;
+    const canvas = canvasRef.current;
+    if (canvas) {
+      // Resizing also clears any mask painted on a previous image.
+      canvas.width = naturalWidth;
+      canvas.height = naturalHeight;
+    }
+    setNaturalSize({ width: naturalWidth, height: naturalHeight });
+  };
+
+  const getDisplayPoint = (event: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  /** Converts display pixels to canvas pixels. */
+  const getScale = () => {
+    const canvas = canvasRef.current;
+    return canvas && displayRect ? canvas.width / displayRect.width : 1;
+  };
+
+  const drawStroke = (from: Point, to: Point) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    const scale = getScale();
+    context.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    context.strokeStyle = MASK_COLOR;
+    context.lineWidth = brushSize * scale;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x * scale, from.y * scale);
+    context.lineTo(to.x * scale, to.y * scale);
+    context.stroke();
+  };
+
+  const fillLasso = (points: Point[]) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context || points.length < 3) return;
+    const scale = getScale();
+    context.globalCompositeOperation = 'source-over';
+    context.fillStyle = MASK_COLOR;
+    context.beginPath();
+    context.moveTo(points[0].x * scale, points[0].y * scale);
+    points.slice(1).forEach(point => context.lineTo(point.x * scale, point.y * scale));
+    context.closePath();
+    context.fill();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = getDisplayPoint(event);
+    if (tool === 'lasso') {
+      setLassoPoints([point]);
+    } else {
+      drawStroke(point, point);
+    }
+    lastPointRef.current = point;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const lastPoint = lastPointRef.current;
+    if (!lastPoint) return;
+    const point = getDisplayPoint(event);
+    if (tool === 'lasso') {
+      setLassoPoints(prev => [...prev, point]);
+    } else {
+      drawStroke(lastPoint, point);
+    }
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    if (tool === 'lasso') {
+      fillLasso(lassoPoints);
+      setLassoPoints([]);
+    }
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0">
+      <img src={src} alt="Image to mask" onLoad={handleImageLoad} className="absolute inset-0 w-full h-full object-contain select-none" draggable={false} />
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`absolute opacity-50 touch-none ${tool === 'erase' ? 'cursor-cell' : 'cursor-crosshair'}`}
+        style={displayRect ? { left: displayRect.left, top: displayRect.top, width: displayRect.width, height: displayRect.height } : { display: 'none' }}
+        aria-label="Mask canvas"
+      />
+      {displayRect && lassoPoints.length > 1 && (
+        <svg
+          className="absolute pointer-events-none"
+          style={{ left: displayRect.left, top: displayRect.top, width: displayRect.width, height: displayRect.height }}
+        >
+          <polygon points={lassoPoints.map(point => `${point.x},${point.y}`).join(' ')} fill={MASK_COLOR} fillOpacity={0.3} stroke="white" strokeDasharray="4 4" />
+        </svg>
+      )}
+
+      <div className="absolute top-2 left-2 flex items-center gap-3 bg-gray-800/80 backdrop-blur-sm rounded-full px-2 py-1 z-30">
+        <div className="flex" role="group" aria-label="Mask tool">
+          {MASK_TOOLS.map(({ tool: option, label }) => (
+            <button
+              key={option}
+              onClick={() => setTool(option)}
+              aria-pressed={tool === option}
+              className={`px-3 py-1 text-xs font-semibold rounded-full transition-colors ${tool === option ? 'bg-purple-600 text-white' : 'text-gray-300 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {tool !== 'lasso' && (
+          <input
+            type="range"
+            min="5"
+            max="150"
+            step="1"
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="w-24 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            aria-label="Brush size"
+          />
+        )}
+        <button onClick={handleClear} className="px-3 py-1 text-xs font-semibold text-gray-300 hover:text-white transition-colors">
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
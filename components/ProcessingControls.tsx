@@ -1,67 +1,166 @@
 
 import React from 'react';
+import { ExtractionBackend, ExtractionMode } from '../types';
 
 interface ProcessingControlsProps {
   blurThreshold: number;
   onBlurChange: (value: number) => void;
   similarityThreshold: number;
   onSimilarityChange: (value: number) => void;
+  extractionMode: ExtractionMode;
+  onExtractionModeChange: (mode: ExtractionMode) => void;
+  sceneCutThreshold: number;
+  onSceneCutChange: (value: number) => void;
+  extractionBackend: ExtractionBackend;
+  onExtractionBackendChange: (value: ExtractionBackend) => void;
   onReExtract: () => void;
   disabled: boolean;
 }
 
+const ModeOption: React.FC<{
+  value: ExtractionMode;
+  current: ExtractionMode;
+  onSelect: (mode: ExtractionMode) => void;
+  title: string;
+  description: string;
+  disabled: boolean;
+}> = ({ value, current, onSelect, title, description, disabled }) => {
+  const isSelected = value === current;
+  return (
+    <label className={`
+      flex-1 p-4 border rounded-lg cursor-pointer transition-all duration-200
+      ${isSelected ? 'bg-purple-500/20 border-purple-500' : 'bg-gray-700/50 border-gray-600 hover:border-gray-500'}
+      ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
+    `}>
+      <input
+        type="radio"
+        name="extraction-mode"
+        value={value}
+        checked={isSelected}
+        onChange={() => onSelect(value)}
+        className="sr-only"
+        disabled={disabled}
+      />
+      <span className="font-semibold text-white">{title}</span>
+      <p className="text-xs text-gray-400 mt-1">{description}</p>
+    </label>
+  );
+};
+
 const ProcessingControls: React.FC<ProcessingControlsProps> = ({
   blurThreshold,
   onBlurChange,
   similarityThreshold,
   onSimilarityChange,
+  extractionMode,
+  onExtractionModeChange,
+  sceneCutThreshold,
+  onSceneCutChange,
+  extractionBackend,
+  onExtractionBackendChange,
   onReExtract,
   disabled
 }) => {
   return (
     <section>
       <h2 className="text-2xl font-semibold mb-4 text-center">Fine-Tune Frame Selection</h2>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start mb-6">
-        {/* Blur Threshold Slider */}
-        <div>
-          <label htmlFor="blur-slider" className="block text-sm font-medium text-gray-300 mb-2">
-            Blur Sensitivity <span className="text-gray-400 font-normal">(Higher = more blur allowed)</span>
-          </label>
-          <div className="flex items-center gap-4">
-            <input
-              id="blur-slider"
-              type="range"
-              min="10"
-              max="200"
-              step="5"
-              value={blurThreshold}
-              onChange={(e) => onBlurChange(Number(e.target.value))}
-              disabled={disabled}
-              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
-            />
-            <span className="font-mono text-purple-300 w-12 text-center">{blurThreshold}</span>
+      <div className="flex flex-col sm:flex-row items-center justify-center gap-3 mb-6">
+        <ModeOption
+          value="similarity"
+          current={extractionMode}
+          onSelect={onExtractionModeChange}
+          title="Distinct Frames"
+          description="Keeps sharp frames that differ enough from the last kept frame."
+          disabled={disabled}
+        />
+        <ModeOption
+          value="scenes"
+          current={extractionMode}
+          onSelect={onExtractionModeChange}
+          title="Scene Cuts"
+          description="Detects shot boundaries and keeps the sharpest frame of each shot."
+          disabled={disabled}
+        />
+      </div>
+      {extractionMode === 'similarity' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start mb-6">
+          {/* Blur Threshold Slider */}
+          <div>
+            <label htmlFor="blur-slider" className="block text-sm font-medium text-gray-300 mb-2">
+              Blur Sensitivity <span className="text-gray-400 font-normal">(Higher = more blur allowed)</span>
+            </label>
+            <div className="flex items-center gap-4">
+              <input
+                id="blur-slider"
+                type="range"
+                min="10"
+                max="200"
+                step="5"
+                value={blurThreshold}
+                onChange={(e) => onBlurChange(Number(e.target.value))}
+                disabled={disabled}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+              />
+              <span className="font-mono text-purple-300 w-12 text-center">{blurThreshold}</span>
+            </div>
+          </div>
+          {/* Similarity Threshold Slider */}
+          <div>
+            <label htmlFor="similarity-slider" className="block text-sm font-medium text-gray-300 mb-2">
+              Frame Uniqueness <span className="text-gray-400 font-normal">(Higher = frames must be more different)</span>
+            </label>
+            <div className="flex items-center gap-4">
+              <input
+                id="similarity-slider"
+                type="range"
+                min="1"
+                max="50"
+                step="1"
+                value={similarityThreshold}
+                onChange={(e) => onSimilarityChange(Number(e.target.value))}
+                disabled={disabled}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+              />
+              <span className="font-mono text-purple-300 w-12 text-center">{similarityThreshold}</span>
+            </div>
           </div>
         </div>
-        {/* Similarity Threshold Slider */}
-        <div>
-          <label htmlFor="similarity-slider" className="block text-sm font-medium text-gray-300 mb-2">
-            Frame Uniqueness <span className="text-gray-400 font-normal">(Higher = frames must be more different)</span>
+      ) : (
+        <div className="mb-6">
+          {/* Scene Cut Threshold Slider */}
+          <label htmlFor="scene-cut-slider" className="block text-sm font-medium text-gray-300 mb-2">
+            Scene Cut Threshold <span className="text-gray-400 font-normal">(Higher = only stronger colour changes count as cuts)</span>
           </label>
           <div className="flex items-center gap-4">
             <input
-              id="similarity-slider"
+              id="scene-cut-slider"
               type="range"
-              min="1"
-              max="50"
+              min="5"
+              max="80"
               step="1"
-              value={similarityThreshold}
-              onChange={(e) => onSimilarityChange(Number(e.target.value))}
+              value={sceneCutThreshold}
+              onChange={(e) => onSceneCutChange(Number(e.target.value))}
               disabled={disabled}
               className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
             />
-            <span className="font-mono text-purple-300 w-12 text-center">{similarityThreshold}</span>
+            <span className="font-mono text-purple-300 w-12 text-center">{sceneCutThreshold}%</span>
           </div>
         </div>
+      )}
+      <div className="mb-6">
+        <label htmlFor="backend-select" className="block text-sm font-medium text-gray-300 mb-2">
+          Extraction Method
+        </label>
+        <select
+          id="backend-select"
+          value={extractionBackend}
+          onChange={(e) => onExtractionBackendChange(e.target.value as ExtractionBackend)}
+          disabled={disabled}
+          className="w-full md:w-1/2 bg-gray-700 border border-gray-600 rounded-md px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <option value="webcodecs">Frame-accurate (WebCodecs, up to 512 MB; falls back to seeking otherwise)</option>
+          <option value="seek">Compatible (seek the video element)</option>
+        </select>
       </div>
       <div className="text-center">
         <button
@@ -0,0 +1,87 @@
+
+import React from 'react';
+import { ProjectSummary } from '../types';
+
+interface ProjectSwitcherProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  onSwitchProject: (id: string) => void;
+  onNewProject: () => void;
+  onRenameProject: (id: string) => void;
+  onDuplicateProject: (id: string) => void;
+  onDeleteProject: (id: string) => void;
+  disabled: boolean;
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  currentProjectId,
+  onSwitchProject,
+  onNewProject,
+  onRenameProject,
+  onDuplicateProject,
+  onDeleteProject,
+  disabled,
+}) => {
+  const hasCurrent = !!currentProjectId && projects.some(p => p.id === currentProjectId);
+
+  return (
+    <section className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
+      <div className="relative flex-grow">
+        <select
+          value={hasCurrent ? currentProjectId! : ''}
+          onChange={(e) => e.target.value && onSwitchProject(e.target.value)}
+          disabled={disabled}
+          className="w-full appearance-none bg-gray-700 border border-gray-600 rounded-md px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          aria-label="Switch project"
+        >
+          {!hasCurrent && <option value="">Select a project...</option>}
+          {projects.map(project => (
+            <option key={project.id} value={project.id}>
+              {project.name} ({project.frameCount} frames)
+            </option>
+          ))}
+        </select>
+        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-400">
+          <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/></svg>
+        </div>
+      </div>
+      <div className="flex items-center justify-center gap-2">
+        <button
+          onClick={onNewProject}
+          disabled={disabled}
+          title="Start a new project from another video"
+          className="px-3 py-2 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          New
+        </button>
+        <button
+          onClick={() => currentProjectId && onRenameProject(currentProjectId)}
+          disabled={disabled || !hasCurrent}
+          title="Rename this project"
+          className="px-3 py-2 text-sm font-semibold text-white bg-gray-600 rounded-md hover:bg-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Rename
+        </button>
+        <button
+          onClick={() => currentProjectId && onDuplicateProject(currentProjectId)}
+          disabled={disabled || !hasCurrent}
+          title="Copy this project, e.g. to try a different style on the same frames"
+          className="px-3 py-2 text-sm font-semibold text-white bg-gray-600 rounded-md hover:bg-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Duplicate
+        </button>
+        <button
+          onClick={() => currentProjectId && onDeleteProject(currentProjectId)}
+          disabled={disabled || !hasCurrent}
+          title="Delete this project"
+          className="px-3 py-2 text-sm font-semibold text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Delete
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default ProjectSwitcher;
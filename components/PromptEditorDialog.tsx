@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { OriginalFrame } from '../types';
+
+export interface PromptUpdate {
+  frameIndex: number;
+  prompt: string;
+}
+
+interface PromptEditorDialogProps {
+  /** The selected frames, with their indices in the original gallery. */
+  frames: Array<{ frameIndex: number; frame: OriginalFrame }>;
+  onSave: (updates: PromptUpdate[]) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+const PromptEditorDialog: React.FC<PromptEditorDialogProps> = ({ frames, onSave, onClose }) => {
+  const [drafts, setDrafts] = useState<string[]>(() => frames.map(({ frame }) => frame.prompt ?? ''));
+  const [findText, setFindText] = useState('');
+  const [replaceText, setReplaceText] = useState('');
+  const [appendText, setAppendText] = useState('');
+
+  const updateDraft = (index: number, value: string) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? value : draft)));
+  };
+
+  // Bulk changes skip frames that have no prompt yet, so they are still described on the next run.
+  const handleReplaceAll = () => {
+    if (!findText) return;
+    setDrafts(prev => prev.map(draft => draft.split(findText).join(replaceText)));
+  };
+
+  const handleAppendAll = () => {
+    const text = appendText.trim();
+    if (!text) return;
+    setDrafts(prev => prev.map(draft => (draft.trim() ? `${draft.trimEnd()} ${text}` : draft)));
+    setAppendText('');
+  };
+
+  const changedCount = drafts.filter((draft, i) => draft.trim() !== (frames[i].frame.prompt ?? '').trim()).length;
+
+  const handleSave = () => {
+    onSave(frames.flatMap(({ frameIndex, frame }, i) =>
+      drafts[i].trim() !== (frame.prompt ?? '').trim() ? [{ frameIndex, prompt: drafts[i].trim() }] : []
+    ));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Edit prompts"
+    >
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-gray-900 rounded-lg shadow-2xl p-6 gap-5" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h2 className="text-xl font-semibold text-white">Edit prompts for {frames.length} frame(s)</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Imagen uses these prompts on the next run. Clear a prompt to have the frame described again.
+          </p>
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-4 bg-gray-800/60 border border-gray-700 rounded-lg p-4">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-300">Find and Replace</label>
+            <input type="text" value={findText} onChange={(e) => setFindText(e.target.value)} placeholder="Find" className={inputClassName} />
+            <input type="text" value={replaceText} onChange={(e) => setReplaceText(e.target.value)} placeholder="Replace with" className={inputClassName} />
+            <button
+              onClick={handleReplaceAll}
+              disabled={!findText}
+              className="px-3 py-1 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Replace in All
+            </button>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="prompt-append" className="block text-sm font-medium text-gray-300">Append to Every Prompt</label>
+            <textarea
+              id="prompt-append"
+              rows={3}
+              value={appendText}
+              onChange={(e) => setAppendText(e.target.value)}
+              placeholder="e.g., golden hour lighting, shallow depth of field"
+              className={`${inputClassName} resize-none`}
+            />
+            <button
+              onClick={handleAppendAll}
+              disabled={!appendText.trim()}
+              className="px-3 py-1 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Append to All
+            </button>
+          </div>
+        </div>
+
+        <ul className="flex-grow overflow-y-auto space-y-3 pr-1">
+          {frames.map(({ frameIndex, frame }, i) => (
+            <li key={frameIndex} className="flex gap-3">
+              <img src={frame.src} alt={`Frame ${frameIndex + 1}`} className="w-24 h-auto self-start rounded-md flex-shrink-0" />
+              <div className="flex-grow space-y-1">
+                <div className="flex items-center gap-2 text-xs text-gray-400">
+                  <span>Frame {frameIndex + 1}</span>
+                  {frame.promptEdited && <span className="px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-300 font-semibold">Edited</span>}
+                </div>
+                <textarea
+                  aria-label={`Prompt for frame ${frameIndex + 1}`}
+                  rows={4}
+                  value={drafts[i]}
+                  onChange={(e) => updateDraft(i, e.target.value)}
+                  placeholder="Not described yet. Leave empty to describe it on the next run, or write your own prompt."
+                  className={`${inputClassName} font-mono resize-y`}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={changedCount === 0}
+            className="px-4 py-2 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save {changedCount > 0 ? `${changedCount} Change(s)` : 'Changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptEditorDialog;
@@ -0,0 +1,130 @@
+
+import React from 'react';
+import { JobStatus, QueueJob, RegenerationJob } from '../types';
+import { isApiKeyErrorMessage } from '../services/apiKeyStore';
+
+interface QueuePanelProps {
+  jobs: QueueJob<RegenerationJob>[];
+  isPaused: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetry: (jobId: string) => void;
+  onRetryFailed: () => void;
+  onClear: () => void;
+  onOpenApiKeys: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-gray-600 text-gray-200' },
+  running: { label: 'Running', className: 'bg-blue-600 text-white animate-pulse' },
+  done: { label: 'Done', className: 'bg-green-600 text-white' },
+  failed: { label: 'Failed', className: 'bg-red-600 text-white' },
+  blocked: { label: 'Blocked', className: 'bg-yellow-600 text-white' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-700 text-gray-400' },
+};
+
+const QueuePanel: React.FC<QueuePanelProps> = ({
+  jobs,
+  isPaused,
+  onPause,
+  onResume,
+  onCancel,
+  onRetry,
+  onRetryFailed,
+  onClear,
+  onOpenApiKeys,
+}) => {
+  const isActive = jobs.some(job => job.status === 'pending' || job.status === 'running');
+  const doneCount = jobs.filter(job => job.status === 'done').length;
+  const retryableCount = jobs.filter(job => job.status === 'failed' || job.status === 'blocked').length;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-center gap-3">
+        <div>
+          <h2 className="text-2xl font-semibold">Regeneration Queue</h2>
+          <p className="text-sm text-gray-400">
+            {doneCount} of {jobs.length} frame(s) done
+            {isPaused && isActive && <span className="text-yellow-400"> (paused)</span>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isActive && (isPaused ? (
+            <button
+              onClick={onResume}
+              className="px-3 py-1 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-700 transition-colors"
+            >
+              Resume
+            </button>
+          ) : (
+            <button
+              onClick={onPause}
+              className="px-3 py-1 text-sm font-semibold text-white bg-gray-600 rounded-md hover:bg-gray-500 transition-colors"
+            >
+              Pause
+            </button>
+          ))}
+          {isActive && (
+            <button
+              onClick={onCancel}
+              className="px-3 py-1 text-sm font-semibold text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          {retryableCount > 0 && (
+            <button
+              onClick={onRetryFailed}
+              className="px-3 py-1 text-sm font-semibold text-white bg-yellow-600 rounded-md hover:bg-yellow-700 transition-colors"
+            >
+              Retry {retryableCount} Failed
+            </button>
+          )}
+          {!isActive && (
+            <button
+              onClick={onClear}
+              className="px-3 py-1 text-sm font-medium text-purple-300 bg-gray-700/60 rounded-md hover:bg-gray-600/60 transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ul className="max-h-64 overflow-y-auto divide-y divide-gray-700 bg-gray-900/40 rounded-lg border border-gray-700">
+        {jobs.map(job => {
+          const status = STATUS_STYLES[job.status];
+          const canRetry = job.status === 'failed' || job.status === 'blocked' || job.status === 'cancelled';
+          return (
+            <li key={job.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+              <span className="font-mono text-gray-300 w-20 flex-shrink-0">Frame {job.payload.frameIndex + 1}</span>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${status.className}`}>{status.label}</span>
+              <span className="flex-grow text-xs text-gray-400 truncate" title={job.error}>
+                {job.error ?? (job.attempts > 1 ? `Attempt ${job.attempts}` : '')}
+              </span>
+              {job.error && isApiKeyErrorMessage(job.error) && (
+                <button
+                  onClick={onOpenApiKeys}
+                  className="px-2 py-0.5 text-xs font-semibold text-amber-300 hover:text-white transition-colors"
+                >
+                  API Key Settings
+                </button>
+              )}
+              {canRetry && (
+                <button
+                  onClick={() => onRetry(job.id)}
+                  className="px-2 py-0.5 text-xs font-semibold text-purple-300 hover:text-white transition-colors"
+                >
+                  Retry
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default QueuePanel;
@@ -0,0 +1,55 @@
+
+import React from 'react';
+import { ProjectSummary } from '../types';
+
+interface RecentProjectsProps {
+  projects: ProjectSummary[];
+  onOpenProject: (id: string) => void;
+  disabled: boolean;
+}
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const RecentProjects: React.FC<RecentProjectsProps> = ({ projects, onOpenProject, disabled }) => {
+  if (projects.length === 0) {
+    return null;
+  }
+
+  return (
+    <section>
+      <h2 className="text-xl font-semibold mb-4 text-center">Or Reopen a Recent Project</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {projects.map(project => (
+          <button
+            key={project.id}
+            onClick={() => onOpenProject(project.id)}
+            disabled={disabled}
+            className="flex items-center gap-3 p-3 text-left bg-gray-700/50 border border-gray-600 rounded-lg hover:border-purple-500 hover:bg-gray-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            <div className="w-20 h-12 flex-shrink-0 bg-gray-800 rounded overflow-hidden">
+              {project.thumbnail && (
+                <img src={project.thumbnail} alt="" className="w-full h-full object-cover" />
+              )}
+            </div>
+            <div className="min-w-0">
+              <p className="font-semibold text-white truncate">{project.name}</p>
+              <p className="text-xs text-gray-400">
+                {project.frameCount} frame(s), {project.regeneratedCount} regenerated
+              </p>
+              <p className="text-xs text-gray-500">{formatDate(project.updatedAt)}</p>
+            </div>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default RecentProjects;
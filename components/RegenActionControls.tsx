@@ -7,6 +7,8 @@ interface RegenActionControlsProps {
   onRegenerateAgain: () => void;
   onPreviewSelected: () => void;
   onDownload: () => void;
+  onExportVideo: () => void;
+  onExportAnimation: () => void;
   disabled: boolean;
 }
 
@@ -16,6 +18,8 @@ const RegenActionControls: React.FC<RegenActionControlsProps> = ({
     onRegenerateAgain, 
     onPreviewSelected,
     onDownload,
+    onExportVideo,
+    onExportAnimation,
     disabled,
 }) => {
 
@@ -49,6 +53,28 @@ const RegenActionControls: React.FC<RegenActionControlsProps> = ({
           </svg>
           <span className="hidden sm:inline">Download</span>
         </button>
+        <button
+          onClick={onExportVideo}
+          disabled={disabled}
+          title="Export selected results as a video"
+          className="flex items-center gap-2 px-3 py-2 sm:px-4 font-semibold text-white bg-teal-600 rounded-md shadow-lg hover:bg-teal-700 transform hover:scale-105 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path d="M2 6a2 2 0 012-2h6a2 2 0 012 2v8a2 2 0 01-2 2H4a2 2 0 01-2-2V6zM14.553 7.106A1 1 0 0014 8v4a1 1 0 00.553.894l2 1A1 1 0 0018 13V7a1 1 0 00-1.447-.894l-2 1z" />
+          </svg>
+          <span className="hidden sm:inline">Video</span>
+        </button>
+        <button
+          onClick={onExportAnimation}
+          disabled={disabled}
+          title="Export selected results as an animated GIF or APNG"
+          className="flex items-center gap-2 px-3 py-2 sm:px-4 font-semibold text-white bg-teal-600 rounded-md shadow-lg hover:bg-teal-700 transform hover:scale-105 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd" />
+          </svg>
+          <span className="hidden sm:inline">GIF/APNG</span>
+        </button>
         <button
           onClick={onPreviewSelected}
           disabled={disabled}
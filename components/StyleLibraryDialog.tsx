@@ -0,0 +1,226 @@
+import React, { useRef, useState } from 'react';
+import { CustomArtStyle } from '../types';
+import { createStyleThumbnail } from '../services/styleLibrary';
+
+interface StyleLibraryDialogProps {
+  styles: CustomArtStyle[];
+  onChange: (styles: CustomArtStyle[]) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+const createEmptyStyle = (): CustomArtStyle => ({
+  id: crypto.randomUUID(),
+  name: '',
+  geminiPrompt: '',
+  imagenSuffix: '',
+});
+
+const StyleForm: React.FC<{
+  initialStyle: CustomArtStyle;
+  onSave: (style: CustomArtStyle) => void;
+  onCancel: () => void;
+}> = ({ initialStyle, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(initialStyle);
+  const update = (changes: Partial<CustomArtStyle>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleThumbnailChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      update({ thumbnail: await createStyleThumbnail(file) });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Could not use this thumbnail. ${errorMessage}`);
+    }
+  };
+
+  const canSave = draft.name.trim() !== '' && draft.geminiPrompt.trim() !== '' && draft.imagenSuffix.trim() !== '';
+
+  return (
+    <div className="space-y-3 bg-gray-800/60 border border-gray-700 rounded-lg p-4">
+      <div>
+        <label htmlFor="style-name" className="block text-sm font-medium text-gray-300 mb-1">Name</label>
+        <input id="style-name" type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g., House Watercolor" className={inputClassName} />
+      </div>
+      <div>
+        <label htmlFor="style-gemini-prompt" className="block text-sm font-medium text-gray-300 mb-1">
+          Gemini Instruction <span className="text-gray-400 font-normal">(sent with each frame)</span>
+        </label>
+        <textarea
+          id="style-gemini-prompt"
+          rows={3}
+          value={draft.geminiPrompt}
+          onChange={(e) => update({ geminiPrompt: e.target.value })}
+          placeholder="Recreate this image as a loose watercolor painting with..."
+          className={`${inputClassName} resize-y`}
+        />
+      </div>
+      <div>
+        <label htmlFor="style-imagen-suffix" className="block text-sm font-medium text-gray-300 mb-1">
+          Imagen Suffix <span className="text-gray-400 font-normal">(appended to the frame description)</span>
+        </label>
+        <input
+          id="style-imagen-suffix"
+          type="text"
+          value={draft.imagenSuffix}
+          onChange={(e) => update({ imagenSuffix: e.target.value })}
+          placeholder="watercolor painting, soft washes, paper texture"
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label htmlFor="style-negative-prompt" className="block text-sm font-medium text-gray-300 mb-1">
+          Negative Prompt <span className="text-gray-400 font-normal">(optional)</span>
+        </label>
+        <input
+          id="style-negative-prompt"
+          type="text"
+          value={draft.negativePrompt ?? ''}
+          onChange={(e) => update({ negativePrompt: e.target.value || undefined })}
+          placeholder="text, watermarks, hard outlines"
+          className={inputClassName}
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        {draft.thumbnail ? (
+          <img src={draft.thumbnail} alt="" className="w-12 h-12 rounded-md object-cover" />
+        ) : (
+          <div className="w-12 h-12 rounded-md bg-gray-700 border border-dashed border-gray-500" />
+        )}
+        <label className="px-3 py-1 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors cursor-pointer">
+          {draft.thumbnail ? 'Change Thumbnail' : 'Add Thumbnail'}
+          <input type="file" accept="image/*" onChange={handleThumbnailChange} className="sr-only" />
+        </label>
+        {draft.thumbnail && (
+          <button onClick={() => update({ thumbnail: undefined })} className="text-sm text-gray-400 hover:text-red-400 transition-colors">
+            Remove
+          </button>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-1 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+          disabled={!canSave}
+          className="px-4 py-1 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save Style
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const StyleLibraryDialog: React.FC<StyleLibraryDialogProps> = ({ styles, onChange, onImport, onExport, onClose }) => {
+  const [editingStyle, setEditingStyle] = useState<CustomArtStyle | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = (style: CustomArtStyle) => {
+    const exists = styles.some(s => s.id === style.id);
+    onChange(exists ? styles.map(s => (s.id === style.id ? style : s)) : [...styles, style]);
+    setEditingStyle(null);
+  };
+
+  const handleDelete = (style: CustomArtStyle) => {
+    if (confirm(`Delete the style "${style.name}"?`)) {
+      onChange(styles.filter(s => s.id !== style.id));
+    }
+  };
+
+  const handleImportChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Style library"
+    >
+      <div className="w-full max-w-xl max-h-[90vh] overflow-y-auto bg-gray-900 rounded-lg shadow-2xl p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-white">My Styles</h2>
+          <div className="flex gap-2">
+            <button onClick={() => importInputRef.current?.click()} className="px-3 py-1 text-sm font-semibold text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors">
+              Import
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImportChange} className="sr-only" />
+            <button
+              onClick={onExport}
+              disabled={styles.length === 0}
+              className="px-3 py-1 text-sm font-semibold text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Export
+            </button>
+          </div>
+        </div>
+
+        {styles.length === 0 && !editingStyle && (
+          <p className="text-sm text-gray-400">
+            You have no custom styles yet. Create one, or import a library shared by someone else.
+          </p>
+        )}
+
+        <ul className="space-y-2">
+          {styles.map(style => (
+            <li key={style.id} className="flex items-center gap-3 bg-gray-800/60 rounded-lg p-2">
+              {style.thumbnail ? (
+                <img src={style.thumbnail} alt="" className="w-10 h-10 rounded-md object-cover flex-shrink-0" />
+              ) : (
+                <div className="w-10 h-10 rounded-md bg-gray-700 flex-shrink-0" />
+              )}
+              <div className="flex-grow min-w-0">
+                <p className="text-sm font-semibold text-white truncate">{style.name}</p>
+                <p className="text-xs text-gray-400 truncate">{style.geminiPrompt}</p>
+              </div>
+              <button
+                onClick={() => setEditingStyle(style)}
+                disabled={!!editingStyle}
+                className="px-3 py-1 text-sm text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => handleDelete(style)}
+                disabled={!!editingStyle}
+                className="px-3 py-1 text-sm text-red-300 bg-gray-700 rounded-md hover:bg-red-600 hover:text-white transition-colors disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {editingStyle ? (
+          <StyleForm key={editingStyle.id} initialStyle={editingStyle} onSave={handleSave} onCancel={() => setEditingStyle(null)} />
+        ) : (
+          <button
+            onClick={() => setEditingStyle(createEmptyStyle())}
+            className="w-full px-4 py-2 text-sm font-semibold text-purple-300 border border-dashed border-purple-500/60 rounded-md hover:bg-purple-500/10 transition-colors"
+          >
+            + New Style
+          </button>
+        )}
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleLibraryDialog;
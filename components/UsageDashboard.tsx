@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { ProjectSummary, UsageBudget, UsageEntry } from '../types';
+import { formatCost, getDayKey, getSpend, MAX_ENTRY_AGE_DAYS, summarizeUsage, UsageSummary } from '../services/usageLedger';
+
+interface UsageDashboardProps {
+  entries: UsageEntry[];
+  budget: UsageBudget | null;
+  /** Saved projects, for naming the per-project rows. */
+  projects: ProjectSummary[];
+  onBudgetChange: (budget: UsageBudget | null) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+/** Days shown in the per-day table. */
+const DAYS_SHOWN = 30;
+
+const inputClassName = "w-28 bg-gray-700 border border-gray-600 rounded-md px-3 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+const Stat: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+  <div className="flex-1 bg-gray-800/60 border border-gray-700 rounded-lg p-3 text-center">
+    <div className="text-xs text-gray-400">{label}</div>
+    <div className="text-lg font-semibold text-white font-mono">{formatCost(value)}</div>
+  </div>
+);
+
+const SummaryTable: React.FC<{ title: string; rows: UsageSummary[]; getLabel?: (key: string) => string }> = ({ title, rows, getLabel = key => key }) => (
+  <div>
+    <h3 className="text-sm font-medium text-gray-300 mb-2">{title}</h3>
+    {rows.length === 0 ? (
+      <p className="text-sm text-gray-500">No paid calls recorded yet.</p>
+    ) : (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-400 text-left">
+            <th className="font-normal pb-1"></th>
+            <th className="font-normal pb-1 text-right">Calls</th>
+            <th className="font-normal pb-1 text-right">Tokens</th>
+            <th className="font-normal pb-1 text-right">Images</th>
+            <th className="font-normal pb-1 text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-t border-gray-700 text-gray-200">
+              <td className="py-1 pr-2 truncate max-w-[12rem]">{getLabel(row.key)}</td>
+              <td className="py-1 text-right font-mono">{row.requests}</td>
+              <td className="py-1 text-right font-mono">{row.totalTokens.toLocaleString()}</td>
+              <td className="py-1 text-right font-mono">{row.imageCount}</td>
+              <td className="py-1 text-right font-mono">{formatCost(row.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ entries, budget, projects, onBudgetChange, onClear, onClose }) => {
+  const [limit, setLimit] = useState(budget ? String(budget.limit) : '');
+  const [period, setPeriod] = useState<UsageBudget['period']>(budget?.period ?? 'month');
+
+  const perDay = summarizeUsage(entries, entry => getDayKey(entry.timestamp)).reverse().slice(0, DAYS_SHOWN);
+  const perProject = summarizeUsage(entries, entry => entry.projectId ?? '').sort((a, b) => b.cost - a.cost);
+  const total = entries.reduce((sum, entry) => sum + entry.cost, 0);
+  const budgetSpend = budget ? getSpend(entries, budget.period) : 0;
+
+  const getProjectName = (id: string) => {
+    if (!id) return 'No project';
+    return projects.find(project => project.id === id)?.name ?? 'Deleted project';
+  };
+
+  const parsedLimit = Number(limit);
+  const canSaveBudget = limit.trim() !== '' && parsedLimit > 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Usage and budget"
+    >
+      <div className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-gray-900 rounded-lg shadow-2xl p-6 gap-5" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h2 className="text-xl font-semibold text-white">Usage & Budget</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Costs are estimated from approximate list prices for the calls made in this browser over the last {MAX_ENTRY_AGE_DAYS} days. Your Google Cloud bill is authoritative.
+          </p>
+        </div>
+
+        <div className="flex gap-3">
+          <Stat label="Today" value={getSpend(entries, 'day')} />
+          <Stat label="This Month" value={getSpend(entries, 'month')} />
+          <Stat label={`Last ${MAX_ENTRY_AGE_DAYS} Days`} value={total} />
+        </div>
+
+        <div className="flex-grow overflow-y-auto space-y-5 pr-1">
+          <SummaryTable title="Spend per Day" rows={perDay} />
+          <SummaryTable title="Spend per Project" rows={perProject} getLabel={getProjectName} />
+        </div>
+
+        <div className="bg-gray-800/60 border border-gray-700 rounded-lg p-4 space-y-3">
+          <h3 className="text-sm font-medium text-gray-300">Budget</h3>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-200">
+            <span>$</span>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              placeholder="No limit"
+              aria-label="Budget limit in US dollars"
+              className={inputClassName}
+            />
+            <select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as UsageBudget['period'])}
+              aria-label="Budget period"
+              className="bg-gray-700 border border-gray-600 rounded-md px-3 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="day">per day</option>
+              <option value="month">per month</option>
+            </select>
+            <button
+              onClick={() => onBudgetChange({ limit: parsedLimit, period })}
+              disabled={!canSaveBudget}
+              className="px-3 py-1 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+            {budget && (
+              <button
+                onClick={() => { setLimit(''); onBudgetChange(null); }}
+                className="px-3 py-1 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          {budget ? (
+            <p className={`text-xs ${budgetSpend >= budget.limit ? 'text-red-400' : 'text-gray-400'}`}>
+              {formatCost(budgetSpend)} of {formatCost(budget.limit)} used this {budget.period}.
+              {budgetSpend >= budget.limit && ' New regeneration jobs are blocked until the next period or until you raise the limit.'}
+            </p>
+          ) : (
+            <p className="text-xs text-gray-400">Once the limit is reached, new regeneration jobs are refused.</p>
+          )}
+        </div>
+
+        <div className="flex justify-between gap-2">
+          <button
+            onClick={onClear}
+            disabled={entries.length === 0}
+            className="px-4 py-2 text-sm font-semibold text-red-300 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear History
+          </button>
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
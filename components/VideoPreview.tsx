@@ -1,15 +1,19 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react';
+import { FrameMetadata } from '../types';
 
 interface VideoPreviewProps {
   src: string;
-  onFrameExtracted: (frameData: string) => void;
+  onFrameExtracted: (frameData: string, metadata: FrameMetadata) => void;
+  /** A position to jump to; a new object triggers a new seek. */
+  seekRequest?: { time: number } | null;
   onAutoExtract: () => void;
   onVideoLoaded: (aspectRatio: number) => void;
   onVideoChange: (file: File) => void;
   disabled: boolean;
 }
 
-const VideoPreview: React.FC<VideoPreviewProps> = ({ src, onFrameExtracted, onAutoExtract, onVideoLoaded, onVideoChange, disabled }) => {
+const VideoPreview: React.FC<VideoPreviewProps> = ({ src, onFrameExtracted, seekRequest, onAutoExtract, onVideoLoaded, onVideoChange, disabled }) => {
+  const sectionRef = useRef<HTMLElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [currentTime, setCurrentTime] = useState(0);
@@ -37,6 +41,15 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ src, onFrameExtracted, onAu
     };
   }, [src, onVideoLoaded]);
 
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!seekRequest || !video) return;
+    video.pause();
+    video.currentTime = seekRequest.time;
+    setCurrentTime(seekRequest.time);
+    sectionRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [seekRequest]);
+
   const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const time = Number(e.target.value);
     if (videoRef.current) {
@@ -57,7 +70,7 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ src, onFrameExtracted, onAu
     
     context.drawImage(video, 0, 0, canvas.width, canvas.height);
     const frameData = canvas.toDataURL('image/jpeg');
-    onFrameExtracted(frameData);
+    onFrameExtracted(frameData, { timestamp: video.currentTime, width: canvas.width, height: canvas.height });
   };
   
   const formatTime = (timeInSeconds: number) => {
@@ -84,7 +97,7 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ src, onFrameExtracted, onAu
 
 
   return (
-    <section>
+    <section ref={sectionRef}>
         <h2 className="text-2xl font-semibold mb-4 text-center">Video Preview & Frame Extraction</h2>
         <div className="bg-black rounded-lg mb-4">
             <video ref={videoRef} src={src} controls className="w-full h-auto max-h-[60vh] rounded-lg"></video>
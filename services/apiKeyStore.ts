@@ -0,0 +1,226 @@
+import { ApiKeyEncryption, StoredApiKey } from "../types";
+import { createSalt, decryptText, deriveKey, EncryptedPayload, encryptText, PBKDF2_ITERATIONS } from "../utils/passphraseCrypto";
+
+const API_KEYS_KEY = 'gemini_api_keys';
+/** The key list encrypted with the user's passphrase, stored instead of API_KEYS_KEY when encryption is on. */
+const ENCRYPTED_API_KEYS_KEY = 'gemini_api_keys_encrypted';
+const ACTIVE_API_KEY_ID_KEY = 'gemini_active_key_id';
+/** The single key saved by earlier versions, moved into the key list by migrateLegacyApiKey. */
+const LEGACY_API_KEY_KEY = 'gemini_api_key';
+
+/**
+ * The decrypted keys and the key that encrypts them, once unlocked.
+ * Both are only held in memory, so the passphrase is asked for again in each session.
+ */
+let unlocked: { keys: StoredApiKey[]; cryptoKey: CryptoKey; salt: string; iterations: number } | null = null;
+let pendingSave: Promise<void> = Promise.resolve();
+
+const loadEncryptedPayload = (): EncryptedPayload | null => {
+  try {
+    return JSON.parse(localStorage.getItem(ENCRYPTED_API_KEYS_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns whether saved keys are stored in plain text, encrypted and locked, or encrypted and unlocked.
+ */
+export const getApiKeyEncryption = (): ApiKeyEncryption => {
+  if (!localStorage.getItem(ENCRYPTED_API_KEYS_KEY)) return 'off';
+  return unlocked ? 'unlocked' : 'locked';
+};
+
+const isStoredApiKey = (value: unknown): value is StoredApiKey => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.id === 'string' && typeof entry.name === 'string' && typeof entry.key === 'string'
+    && (entry.status === 'untested' || entry.status === 'valid' || entry.status === 'invalid');
+};
+
+const parseKeys = (json: string): StoredApiKey[] => {
+  try {
+    const stored = JSON.parse(json);
+    return Array.isArray(stored) ? stored.filter(isStoredApiKey) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Loads the API keys saved in this browser.
+ * @returns The saved keys; an empty list if none are saved, the stored data is unreadable, or the keys are locked.
+ */
+export const loadApiKeys = (): StoredApiKey[] => {
+  if (getApiKeyEncryption() !== 'off') {
+    return unlocked?.keys ?? [];
+  }
+  return parseKeys(localStorage.getItem(API_KEYS_KEY) ?? '[]');
+};
+
+/**
+ * Moves a key saved by earlier versions into the key list, selecting it if no key is selected.
+ * Run once at startup; does nothing if there is no such key or the saved keys are encrypted.
+ */
+export const migrateLegacyApiKey = (): void => {
+  const legacyKey = localStorage.getItem(LEGACY_API_KEY_KEY);
+  if (!legacyKey || getApiKeyEncryption() !== 'off') return;
+
+  const migrated: StoredApiKey = { id: crypto.randomUUID(), name: 'My key', key: legacyKey, status: 'untested' };
+  localStorage.setItem(API_KEYS_KEY, JSON.stringify([...loadApiKeys(), migrated]));
+  if (!getActiveApiKeyId()) {
+    setActiveApiKeyId(migrated.id);
+  }
+  localStorage.removeItem(LEGACY_API_KEY_KEY);
+};
+
+/**
+ * Encrypts and stores the unlocked keys as they are when this runs.
+ * Nothing is written if the keys were replaced meanwhile, since whatever replaced them writes its own copy,
+ * or if encryption was turned off or the keys forgotten.
+ */
+const writeUnlockedKeys = async (): Promise<void> => {
+  const state = unlocked;
+  if (!state || getApiKeyEncryption() === 'off') return;
+  const payload = await encryptText(state.cryptoKey, state.salt, state.iterations, JSON.stringify(state.keys));
+  if (getApiKeyEncryption() === 'off' || (unlocked && unlocked !== state)) return;
+  localStorage.setItem(ENCRYPTED_API_KEYS_KEY, JSON.stringify(payload));
+};
+
+/**
+ * Persists the list of API keys, encrypting it when encryption is on.
+ * @param keys The complete list of keys.
+ * @throws An error if the keys are encrypted and still locked.
+ */
+export const saveApiKeys = async (keys: StoredApiKey[]): Promise<void> => {
+  const encryption = getApiKeyEncryption();
+  if (encryption === 'off') {
+    localStorage.setItem(API_KEYS_KEY, JSON.stringify(keys));
+    return;
+  }
+  if (!unlocked) {
+    throw new Error('Unlock your saved API keys before changing them.');
+  }
+  unlocked = { ...unlocked, keys };
+  // Saves run in order, so a slower encryption can't overwrite a newer list.
+  const save = pendingSave.then(writeUnlockedKeys);
+  pendingSave = save.catch(() => undefined);
+  return save;
+};
+
+/**
+ * Decrypts the saved keys for the rest of the session.
+ * @param passphrase The passphrase the keys were encrypted with.
+ * @throws An error if the passphrase is wrong.
+ */
+export const unlockApiKeys = async (passphrase: string): Promise<void> => {
+  const payload = loadEncryptedPayload();
+  if (!payload) {
+    throw new Error('There are no encrypted API keys to unlock.');
+  }
+  const cryptoKey = await deriveKey(passphrase, payload.salt, payload.iterations);
+  const keys = parseKeys(await decryptText(cryptoKey, payload));
+  unlocked = { keys, cryptoKey, salt: payload.salt, iterations: payload.iterations };
+};
+
+/**
+ * Forgets the decrypted keys, so the passphrase is needed again.
+ */
+export const lockApiKeys = (): void => {
+  unlocked = null;
+};
+
+/**
+ * Encrypts the saved keys with a new passphrase and removes the plain-text copy.
+ * When the keys are already encrypted and unlocked, this changes the passphrase.
+ * @param passphrase The new passphrase.
+ * @throws An error if the keys are encrypted and still locked.
+ */
+export const encryptApiKeys = async (passphrase: string): Promise<void> => {
+  if (getApiKeyEncryption() === 'locked') {
+    throw new Error('Unlock your saved API keys before changing the passphrase.');
+  }
+  const salt = createSalt();
+  const cryptoKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  // Otherwise a save still encrypting with the old passphrase could land afterwards.
+  await pendingSave;
+
+  // The keys are read once the slow key derivation is done, and again if they change
+  // while encrypting, so edits made in the meantime are kept.
+  let keys: StoredApiKey[];
+  let payload: EncryptedPayload;
+  do {
+    keys = loadApiKeys();
+    payload = await encryptText(cryptoKey, salt, PBKDF2_ITERATIONS, JSON.stringify(keys));
+    if (getApiKeyEncryption() === 'locked') {
+      throw new Error('Your saved API keys were locked before the new passphrase was set. Unlock them and try again.');
+    }
+  } while (JSON.stringify(loadApiKeys()) !== JSON.stringify(keys));
+
+  localStorage.setItem(ENCRYPTED_API_KEYS_KEY, JSON.stringify(payload));
+  localStorage.removeItem(API_KEYS_KEY);
+  unlocked = { keys, cryptoKey, salt, iterations: PBKDF2_ITERATIONS };
+};
+
+/**
+ * Stores the unlocked keys in plain text again and removes the encrypted copy.
+ * @throws An error if the keys are still locked.
+ */
+export const removeApiKeyEncryption = (): void => {
+  if (!unlocked) {
+    throw new Error('Unlock your saved API keys before turning off encryption.');
+  }
+  localStorage.setItem(API_KEYS_KEY, JSON.stringify(unlocked.keys));
+  localStorage.removeItem(ENCRYPTED_API_KEYS_KEY);
+  unlocked = null;
+};
+
+/**
+ * Deletes the encrypted keys, for when the passphrase has been forgotten.
+ */
+export const forgetEncryptedApiKeys = (): void => {
+  localStorage.removeItem(ENCRYPTED_API_KEYS_KEY);
+  setActiveApiKeyId(null);
+  unlocked = null;
+};
+
+/**
+ * Returns the id of the key used for requests, or null if none is selected.
+ */
+export const getActiveApiKeyId = (): string | null => localStorage.getItem(ACTIVE_API_KEY_ID_KEY);
+
+/**
+ * Selects the key used for requests.
+ * @param id The key's id, or null to fall back to the deployment's key.
+ */
+export const setActiveApiKeyId = (id: string | null): void => {
+  if (id) {
+    localStorage.setItem(ACTIVE_API_KEY_ID_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_API_KEY_ID_KEY);
+  }
+};
+
+/**
+ * Returns the selected key's value.
+ * @returns The key, or undefined if no saved key is selected or the keys are locked.
+ */
+export const getActiveApiKey = (): string | undefined => {
+  const activeId = getActiveApiKeyId();
+  return activeId ? loadApiKeys().find(entry => entry.id === activeId)?.key : undefined;
+};
+
+/**
+ * Hides all but the start and end of a key, e.g. 'AIza…x9Qk'.
+ * @param key The API key.
+ * @returns The masked key.
+ */
+export const maskApiKey = (key: string): string => (key.length <= 8 ? '•'.repeat(key.length) : `${key.slice(0, 4)}…${key.slice(-4)}`);
+
+/**
+ * Checks whether an error message is about a missing or rejected API key,
+ * so the key settings can be offered alongside it.
+ * @param message The error message.
+ * @returns True for API key errors.
+ */
+export const isApiKeyErrorMessage = (message: string): boolean => /API key/i.test(message);
@@ -1,31 +1,261 @@
-import { GoogleGenAI, Modality, Part } from "@google/genai";
-import { ArtStyle, RegenerationModel } from "../types";
+import { ApiError, GenerateContentConfig, GenerateImagesConfig, GoogleGenAI, HarmBlockThreshold, HarmCategory, Modality, Part, PersonGeneration as ImagenPersonGeneration, SafetyFilterLevel } from "@google/genai";
+import { ArtStyle, GenerationSettings, InlineImage, PersonGeneration, SafetyLevel, StyleChoice } from "../types";
+import { EditRequest, GeneratedImage, GeneratedImages, ImageProvider, ImageToImageRequest, ProviderModels, SequenceContext, TextToImageRequest } from "./imageProvider";
+import { recordUsage } from "./usageLedger";
+import { getActiveApiKey, getActiveApiKeyId, getApiKeyEncryption, isApiKeyErrorMessage } from "./apiKeyStore";
+
+/** The key built into the deployment, used when no saved key is selected. */
+const DEPLOYMENT_API_KEY: string | undefined = import.meta.env.VITE_API_KEY;  // gunakan import.meta.env
+
+/**
+ * Whether the deployment provides a key through VITE_API_KEY.
+ */
+export const hasDeploymentApiKey = (): boolean => !!DEPLOYMENT_API_KEY;
 
 /**
  * Creates and returns a new GoogleGenAI instance with the current API key.
- * @throws An error if the API key is not set.
+ * @throws An error if the API key is not set or is still encrypted.
  */
 const getAiClient = () => {
-  const apiKey = localStorage.getItem('gemini_api_key')
-                || import.meta.env.VITE_API_KEY;  // gunakan import.meta.env
+  // A saved key is selected but can't be read until the passphrase is entered.
+  if (getApiKeyEncryption() === 'locked' && getActiveApiKeyId()) {
+    throw new Error('Your saved API keys are locked. Enter your passphrase in the API key settings to unlock them.');
+  }
+  const apiKey = getActiveApiKey() || DEPLOYMENT_API_KEY;
   if (!apiKey) {
     throw new Error(
-      'Gemini API key is not set. Please configure VITE_API_KEY in Vercel or via the settings UI.'
+      'Gemini API key is not set. Add one in the API key settings, or configure VITE_API_KEY for the deployment.'
     );
   }
   return new GoogleGenAI({ apiKey });
 };
 
+/** Selectable model versions; the first of each list is the default. */
+const GEMINI_MODELS: ProviderModels = {
+  text: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+  image: ['gemini-2.5-flash-image-preview', 'gemini-2.5-flash-image'],
+  textToImage: ['imagen-4.0-generate-001', 'imagen-4.0-fast-generate-001', 'imagen-4.0-ultra-generate-001', 'imagen-3.0-generate-002'],
+};
+
+const RATE_LIMITS_KEY = 'rate_limits';
+
+const DEFAULT_REQUESTS_PER_MINUTE: Record<string, number> = {
+  ...Object.fromEntries(GEMINI_MODELS.text.map(model => [model, 60])),
+  ...Object.fromEntries([...GEMINI_MODELS.image, ...GEMINI_MODELS.textToImage].map(model => [model, 10])),
+};
+
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+
+interface ModelLimiter {
+  /** Effective limit; halved on 429s and slowly restored on success, never above the configured value. */
+  currentLimit: number;
+  lastRequestAt: number;
+  blockedUntil: number;
+  /** Serializes slot acquisition so concurrent callers are spaced out in order. */
+  pending: Promise<void>;
+}
+
+const loadRequestsPerMinute = (): Record<string, number> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RATE_LIMITS_KEY) ?? '{}');
+    return { ...DEFAULT_REQUESTS_PER_MINUTE, ...stored };
+  } catch {
+    return { ...DEFAULT_REQUESTS_PER_MINUTE };
+  }
+};
+
+let requestsPerMinute = loadRequestsPerMinute();
+const limiters = new Map<string, ModelLimiter>();
+
+const getConfiguredLimit = (model: string): number => requestsPerMinute[model] ?? 10;
+
+const getLimiter = (model: string): ModelLimiter => {
+  let limiter = limiters.get(model);
+  if (!limiter) {
+    limiter = { currentLimit: getConfiguredLimit(model), lastRequestAt: 0, blockedUntil: 0, pending: Promise.resolve() };
+    limiters.set(model, limiter);
+  }
+  return limiter;
+};
+
+/**
+ * Returns the configured requests-per-minute limit for each known model.
+ */
+export const getRequestsPerMinute = (): Record<string, number> => ({ ...requestsPerMinute });
+
+/**
+ * Sets and persists the requests-per-minute limit for a model.
+ * @param model The model id.
+ * @param limit The maximum number of requests to start per minute.
+ */
+export const setRequestsPerMinute = (model: string, limit: number): void => {
+  requestsPerMinute = { ...requestsPerMinute, [model]: Math.max(1, Math.round(limit)) };
+  localStorage.setItem(RATE_LIMITS_KEY, JSON.stringify(requestsPerMinute));
+  const limiter = limiters.get(model);
+  if (limiter) {
+    limiter.currentLimit = getConfiguredLimit(model);
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Waits until the model's rate limit allows another request to start.
+ * Requests are spaced evenly across the minute rather than sent in bursts.
+ */
+const acquireSlot = (model: string): Promise<void> => {
+  const limiter = getLimiter(model);
+  const slot = limiter.pending.then(async () => {
+    for (;;) {
+      const now = Date.now();
+      const nextAllowedAt = Math.max(limiter.blockedUntil, limiter.lastRequestAt + 60000 / limiter.currentLimit);
+      if (nextAllowedAt <= now) break;
+      await sleep(nextAllowedAt - now);
+    }
+    limiter.lastRequestAt = Date.now();
+  });
+  limiter.pending = slot;
+  return slot;
+};
+
+const getErrorStatus = (error: unknown): number | undefined => {
+  if (error instanceof ApiError) return error.status;
+  if (error instanceof Error) {
+    if (error.message.includes('RESOURCE_EXHAUSTED')) return 429;
+    if (error.message.includes('UNAVAILABLE')) return 503;
+    const match = error.message.match(/\b(429|5\d\d)\b/);
+    if (match) return Number(match[1]);
+  }
+  return undefined;
+};
+
+const isRetryableError = (error: unknown): boolean => {
+  const status = getErrorStatus(error);
+  return status === 429 || (status !== undefined && status >= 500 && status < 600);
+};
+
+/**
+ * Extracts a server-provided retry delay, e.g. the `retryDelay` of a google.rpc.RetryInfo detail.
+ */
+const getRetryAfterMs = (error: unknown): number | undefined => {
+  if (!(error instanceof Error)) return undefined;
+  const match = error.message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/) ?? error.message.match(/retry (?:in|after) ([\d.]+)\s*s/i);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Runs an API request under the model's rate limit, retrying 429 and 5xx
+ * responses with exponential backoff and jitter (or the server's retry hint).
+ * @param model The model id the request is made against.
+ * @param request The API call to perform.
+ * @returns A promise resolving to the request's result.
+ */
+const scheduleRequest = async <T>(model: string, request: () => Promise<T>): Promise<T> => {
+  const limiter = getLimiter(model);
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot(model);
+    try {
+      const result = await request();
+      limiter.currentLimit = Math.min(getConfiguredLimit(model), limiter.currentLimit + 1);
+      return result;
+    } catch (error) {
+      if (!isRetryableError(error) || attempt >= MAX_RETRIES) {
+        throw error;
+      }
+
+      const exponentialMs = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+      const jitterMs = Math.random() * exponentialMs / 2;
+      const delayMs = (getRetryAfterMs(error) ?? exponentialMs / 2) + jitterMs;
+
+      if (getErrorStatus(error) === 429) {
+        // Back off every caller of this model, not just the one that was rejected.
+        limiter.currentLimit = Math.max(1, Math.floor(limiter.currentLimit / 2));
+        limiter.blockedUntil = Math.max(limiter.blockedUntil, Date.now() + delayMs);
+      }
+
+      console.warn(`Request to ${model} failed (attempt ${attempt + 1} of ${MAX_RETRIES + 1}), retrying in ${Math.round(delayMs)}ms.`, error);
+      await sleep(delayMs);
+    }
+  }
+};
+
+const SAFETY_CATEGORIES = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+];
+
+const HARM_BLOCK_THRESHOLDS: Record<Exclude<SafetyLevel, 'MODEL_DEFAULT'>, HarmBlockThreshold> = {
+  BLOCK_LOW_AND_ABOVE: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+  BLOCK_MEDIUM_AND_ABOVE: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  BLOCK_ONLY_HIGH: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+  BLOCK_NONE: HarmBlockThreshold.BLOCK_NONE,
+};
+
+const SAFETY_FILTER_LEVELS: Record<Exclude<SafetyLevel, 'MODEL_DEFAULT'>, SafetyFilterLevel> = {
+  BLOCK_LOW_AND_ABOVE: SafetyFilterLevel.BLOCK_LOW_AND_ABOVE,
+  BLOCK_MEDIUM_AND_ABOVE: SafetyFilterLevel.BLOCK_MEDIUM_AND_ABOVE,
+  BLOCK_ONLY_HIGH: SafetyFilterLevel.BLOCK_ONLY_HIGH,
+  BLOCK_NONE: SafetyFilterLevel.BLOCK_NONE,
+};
+
+const IMAGEN_PERSON_GENERATION: Record<Exclude<PersonGeneration, 'MODEL_DEFAULT'>, ImagenPersonGeneration> = {
+  DONT_ALLOW: ImagenPersonGeneration.DONT_ALLOW,
+  ALLOW_ADULT: ImagenPersonGeneration.ALLOW_ADULT,
+  ALLOW_ALL: ImagenPersonGeneration.ALLOW_ALL,
+};
+
+/**
+ * Builds the Gemini request config for the run's temperature, seed and safety level.
+ * Settings left at the model's default are left out of the request.
+ * @param settings The generation settings.
+ * @returns The config fields to merge into a generateContent request.
+ */
+const getContentConfig = (settings: GenerationSettings): GenerateContentConfig => {
+  const { safetyLevel } = settings;
+  return {
+    ...(settings.temperature !== null ? { temperature: settings.temperature } : {}),
+    ...(settings.seed !== null ? { seed: settings.seed } : {}),
+    ...(safetyLevel !== 'MODEL_DEFAULT'
+      ? { safetySettings: SAFETY_CATEGORIES.map(category => ({ category, threshold: HARM_BLOCK_THRESHOLDS[safetyLevel] })) }
+      : {}),
+  };
+};
+
+/**
+ * Builds the Imagen request config for the run's people and safety settings.
+ * Settings left at the model's default are left out of the request.
+ * @param settings The generation settings.
+ * @returns The config fields to merge into a generateImages request.
+ */
+const getImagenConfig = (settings: GenerationSettings): GenerateImagesConfig => {
+  const { personGeneration, safetyLevel } = settings;
+  return {
+    ...(personGeneration !== 'MODEL_DEFAULT' ? { personGeneration: IMAGEN_PERSON_GENERATION[personGeneration] } : {}),
+    ...(safetyLevel !== 'MODEL_DEFAULT' ? { safetyFilterLevel: SAFETY_FILTER_LEVELS[safetyLevel] } : {}),
+  };
+};
+
+/** Counts the images in a Gemini response, for the usage ledger. */
+const countImageParts = (parts: Part[] | undefined): number => (parts ?? []).filter(part => part.inlineData).length;
+
 /**
  * Translates a given text to a specified target language using Gemini.
  * @param textToTranslate The text to be translated.
  * @param targetLanguage The target language (e.g., 'Indonesian').
+ * @param settings The text model and safety level to use.
+ * @param projectId The project the call's usage is charged to, or null when none is open.
  * @returns A promise that resolves to the translated text.
  */
-export async function translateText(textToTranslate: string, targetLanguage: string): Promise<string> {
+async function translateText(textToTranslate: string, targetLanguage: string, settings: GenerationSettings, projectId: string | null): Promise<string> {
     const ai = getAiClient();
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
+    const model = settings.textModel;
+    const response = await scheduleRequest(model, () => ai.models.generateContent({
+        model,
         contents: {
             parts: [{
                 text: `Translate the following text to ${targetLanguage}. Only return the translated text, without any additional explanations, labels, or context.
@@ -33,45 +263,59 @@ Text: "${textToTranslate}"`
             }]
         },
         config: {
+            ...getContentConfig(settings),
             // Lower temperature for more direct, less creative translation
             temperature: 0.1,
         }
-    });
+    }));
+    recordUsage({ model, projectId, operation: 'translate', usage: response.usageMetadata, imageCount: 0 });
     return response.text.trim();
 }
 
 /**
  * Uses Gemini to generate a textual description of a given image.
- * @param base64Data The base64 encoded string of the source image.
+ * @param image The source image.
+ * @param settings The text model and parameters to use.
+ * @param projectId The project the call's usage is charged to, or null when none is open.
  * @returns A promise that resolves to a detailed description of the image.
  */
-export async function describeImage(base64Data: string): Promise<string> {
+async function describeImage(image: InlineImage, settings: GenerationSettings, projectId: string | null): Promise<string> {
     const ai = getAiClient();
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
+    const model = settings.textModel;
+    const response = await scheduleRequest(model, () => ai.models.generateContent({
+        model,
         contents: {
             parts: [
-                {
-                    inlineData: {
-                        data: base64Data,
-                        mimeType: 'image/jpeg',
-                    }
-                },
+                { inlineData: image },
                 {
                     text: 'Generate a highly detailed, objective description of this image, suitable for a text-to-image AI. Describe the scene, subjects, colors, lighting, and composition as if you were explaining it to someone who cannot see it. Avoid subjective interpretations or artistic styles. The description should be a single, dense paragraph.'
                 }
             ]
-        }
-    });
+        },
+        config: getContentConfig(settings),
+    }));
+    recordUsage({ model, projectId, operation: 'describe', usage: response.usageMetadata, imageCount: 0 });
     return response.text;
 }
 
+/**
+ * Phrases a custom style's negative prompt as an instruction.
+ * Neither model accepts a separate negative prompt, so it is added to the prompt text.
+ */
+const getNegativeInstruction = (style: StyleChoice): string => {
+    const negativePrompt = typeof style === 'string' ? undefined : style.negativePrompt?.trim();
+    return negativePrompt ? ` Avoid: ${negativePrompt}.` : '';
+};
+
 /**
  * Returns an instructional prompt for Gemini's image-to-image model.
- * @param style The selected ArtStyle.
+ * @param style The selected built-in or custom style.
  * @returns A string prompt for image-to-image regeneration.
  */
-const getGeminiInstructionalPrompt = (style: ArtStyle): string => {
+const getGeminiInstructionalPrompt = (style: StyleChoice): string => {
+    if (typeof style !== 'string') {
+        return `${style.geminiPrompt.trim()}${getNegativeInstruction(style)}`;
+    }
     switch (style) {
         case ArtStyle.REALISTIC:
             return "Recreate this image as an ultra-realistic, photorealistic, high-detail photograph. It should look like it was shot with a professional DSLR camera, with sharp focus and intricate details.";
@@ -96,10 +340,14 @@ const getGeminiInstructionalPrompt = (style: ArtStyle): string => {
 
 /**
  * Returns a stylistic suffix for Imagen's text-to-image model.
- * @param style The selected ArtStyle.
+ * @param style The selected built-in or custom style.
  * @returns A string suffix to append to the main prompt.
  */
-const getImagenStyleSuffix = (style: ArtStyle): string => {
+const getImagenStyleSuffix = (style: StyleChoice): string => {
+    if (typeof style !== 'string') {
+        const suffix = style.imagenSuffix.trim();
+        return `${suffix && !/^[,.]/.test(suffix) ? ', ' : ''}${suffix}${getNegativeInstruction(style)}`;
+    }
     switch (style) {
         case ArtStyle.REALISTIC: return ', ultra-realistic, photorealistic, 8k, sharp focus, professional DSLR photo.';
         case ArtStyle.CARTOON: return ', vibrant cartoon illustration, bold lines, cel-shaded, playful style.';
@@ -142,38 +390,77 @@ const mapAspectRatioToImagen = (ratio: number): '1:1' | '3:4' | '4:3' | '9:16' |
 };
 
 
+/**
+ * Returns the instruction used when style reference images are sent after the source frame.
+ * The references replace the selected style, so only a custom style's negative prompt is kept.
+ * @param referenceCount The number of reference images.
+ * @param style The selected style, for its negative prompt.
+ * @returns A string prompt for reference-guided regeneration.
+ */
+const getReferenceInstructionalPrompt = (referenceCount: number, style: StyleChoice): string => {
+    const references = referenceCount === 1 ? 'Image 2 is a style reference' : `Images 2 to ${referenceCount + 1} are style references`;
+    return `Recreate the first image in the visual style of the reference images. ${references}: match their color palette, lighting, textures, line work and rendering technique as closely as possible. Keep the composition, subjects, poses and camera angle of the first image, and do not copy any subjects or objects from the references.${getNegativeInstruction(style)}`;
+};
+
+/**
+ * Explains the sequence context images, which follow the source frame and any style references.
+ * @param context The context images being sent.
+ * @param firstImageNumber The 1-based position of the first context image in the request.
+ * @returns An instruction to append to the prompt, or an empty string when there is no context.
+ */
+const getSequenceInstruction = (context: SequenceContext, firstImageNumber: number): string => {
+    const descriptions: string[] = [];
+    let imageNumber = firstImageNumber;
+    if (context.previousFrame) {
+        descriptions.push(`Image ${imageNumber++} is the previous frame of this sequence, already recreated`);
+    }
+    if (context.anchorFrame) {
+        descriptions.push(`Image ${imageNumber++} is the key frame that defines the look of the whole sequence`);
+    }
+    if (descriptions.length === 0) return '';
+    return ` ${descriptions.join('. ')}. Keep characters, faces, outfits, colors and rendering consistent with ${descriptions.length === 1 ? 'it' : 'them'} so the frames read as one continuous sequence, but follow the composition and content of the first image.`;
+};
+
 /**
  * Regenerates an image using Gemini's image-to-image capabilities.
- * @param base64Data The base64 encoded string of the source image.
- * @param style The artistic style to apply.
+ * @param request The source image, style, style references and sequence context.
  * @returns A promise resolving to the new image data and prompt.
  */
-async function regenerateImageWithGemini(
-  base64Data: string, 
-  style: ArtStyle, 
-): Promise<{ image: string; prompt: string; }> {
+async function regenerateImageWithGemini(request: ImageToImageRequest): Promise<GeneratedImage> {
+    const { image, style, styleReferences = [], sequenceContext: context = {}, settings, projectId } = request;
     const ai = getAiClient();
-    const finalPrompt = getGeminiInstructionalPrompt(style);
+    const basePrompt = styleReferences.length > 0
+        ? getReferenceInstructionalPrompt(styleReferences.length, style)
+        : getGeminiInstructionalPrompt(style);
+    const finalPrompt = `${basePrompt}${getSequenceInstruction(context, styleReferences.length + 2)}`;
+    const contextImages = [context.previousFrame, context.anchorFrame].filter((image): image is InlineImage => !!image);
+    const model = settings.imageModel;
     
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
+    const response = await scheduleRequest(model, () => ai.models.generateContent({
+      model,
       contents: {
         parts: [
-          { inlineData: { data: base64Data, mimeType: 'image/jpeg' } },
+          { inlineData: image },
+          ...styleReferences.map(data => ({ inlineData: { data, mimeType: 'image/jpeg' } })),
+          ...contextImages.map(inlineData => ({ inlineData })),
           { text: finalPrompt },
         ],
       },
       config: {
+        ...getContentConfig(settings),
         responseModalities: [Modality.IMAGE, Modality.TEXT],
       },
-    });
+    }));
+    // Tokens are billed even when the image is blocked, so usage is recorded before checking.
+    const imageCount = countImageParts(response.candidates?.[0]?.content?.parts);
+    recordUsage({ model, projectId, operation: 'regenerate', usage: response.usageMetadata, imageCount });
 
     const candidate = response.candidates?.[0];
 
     if (candidate?.content?.parts) {
       for (const part of candidate.content.parts) {
         if (part.inlineData) {
-          return { image: part.inlineData.data, prompt: finalPrompt };
+          return { image: part.inlineData.data, mimeType: part.inlineData.mimeType ?? 'image/png', prompt: finalPrompt };
         }
       }
     }
@@ -185,34 +472,39 @@ async function regenerateImageWithGemini(
     throw new Error('No image was generated by Gemini.');
 }
 
+/** The most images Imagen returns for a single request. */
+const IMAGEN_MAX_IMAGES = 4;
+
 /**
- * Generates an image using Imagen's text-to-image capabilities.
- * @param basePrompt The detailed description of the image.
- * @param style The artistic style to apply.
- * @param aspectRatio The target aspect ratio.
- * @returns A promise resolving to the new image data and prompt.
+ * Generates images using Imagen's text-to-image capabilities.
+ * @param request The image description, style, aspect ratio and number of images.
+ * @returns A promise resolving to the new images' data and the prompt.
  */
-async function generateImageWithImagen(
-    basePrompt: string,
-    style: ArtStyle,
-    aspectRatio: number
-): Promise<{ image: string; prompt: string }> {
+async function generateImageWithImagen(request: TextToImageRequest): Promise<GeneratedImages> {
+    const { prompt: basePrompt, style, aspectRatio, settings, projectId } = request;
+    const numberOfImages = Math.min(IMAGEN_MAX_IMAGES, Math.max(1, request.numberOfImages));
     const ai = getAiClient();
     const finalPrompt = `${basePrompt}${getImagenStyleSuffix(style)}`;
+    const model = settings.textToImageModel;
 
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
+    const response = await scheduleRequest(model, () => ai.models.generateImages({
+        model,
         prompt: finalPrompt,
         config: {
-          numberOfImages: 1,
-          outputMimeType: 'image/jpeg',
+          numberOfImages,
+          outputMimeType: settings.outputMimeType,
           aspectRatio: mapAspectRatioToImagen(aspectRatio),
+          ...getImagenConfig(settings),
         },
-    });
+    }));
 
-    const generatedImage = response.generatedImages?.[0];
-    if (generatedImage?.image?.imageBytes) {
-        return { image: generatedImage.image.imageBytes, prompt: finalPrompt };
+    // Filtered images are left out of the response, so there may be fewer than requested.
+    const images = (response.generatedImages ?? []).flatMap(({ image }) =>
+        image?.imageBytes ? [{ data: image.imageBytes, mimeType: image.mimeType ?? settings.outputMimeType }] : []);
+    // Imagen is billed per returned image and reports no token usage.
+    recordUsage({ model, projectId, operation: 'generate', imageCount: images.length });
+    if (images.length > 0) {
+        return { images, prompt: finalPrompt };
     }
     
     // Fix: Correctly access promptFeedback from the top-level response for generateImages.
@@ -224,85 +516,61 @@ async function generateImageWithImagen(
 }
 
 
-interface RegenerateOptions {
-  model: RegenerationModel;
-  style: ArtStyle;
-  aspectRatio: number;
-  base64Data?: string;
-  prompt?: string;
-}
-
 /**
- * Regenerates an image using the selected AI model (Gemini or Imagen).
- * This function acts as a dispatcher to the appropriate model-specific function.
- * @param options The regeneration options, including model, style, and source data.
- * @returns A promise that resolves to an object containing the new image and the prompt used.
+ * Turns API key and quota failures into messages the user can act on.
+ * Blocked-content errors and other API key errors, such as a missing or locked key, already
+ * explain themselves and are kept as they are, so the key settings can still be offered.
+ * @param error The error thrown by the API call.
+ * @param fallbackMessage The message for any other failure.
+ * @returns The error to throw.
  */
-export const regenerateImage = async (
-  options: RegenerateOptions
-): Promise<{ image: string; prompt: string; }> => {
-  const { model, style, aspectRatio, base64Data, prompt } = options;
-
-  try {
-    if (model === 'imagen') {
-        if (!prompt) {
-            throw new Error('A text prompt is required for the Imagen model.');
-        }
-        return await generateImageWithImagen(prompt, style, aspectRatio);
-    } else { // 'gemini'
-        if (!base64Data) {
-            throw new Error('Base64 image data is required for the Gemini model.');
-        }
-        return await regenerateImageWithGemini(base64Data, style);
-    }
-  } catch (error) {
-    console.error(`Error calling ${model} API for regeneration:`, error);
+const toFriendlyError = (error: unknown, fallbackMessage: string): Error => {
     if (error instanceof Error) {
         if (error.message.includes('API key not valid')) {
-            throw new Error('Your Gemini API key is not valid. Please check your configuration.');
+            return new Error('Your Gemini API key is not valid. Check or switch keys in the API key settings.');
         }
         if (error.message.includes('429') || error.message.includes('RESOURCE_EXHAUSTED')) {
-            throw new Error('API rate limit or quota exceeded. Please try again later.');
+            return new Error(`API rate limit or quota exceeded after ${MAX_RETRIES} retries. Please try again later or lower the requests per minute.`);
         }
-         // Rethrow specific "blocked" error messages from underlying functions
-        if (error.message.includes('blocked')) {
-            throw error;
+        if (error.message.includes('blocked') || isApiKeyErrorMessage(error.message)) {
+            return error;
         }
     }
-    throw new Error(`Failed to regenerate image with ${model}. Check the console for details.`);
-  }
+    return new Error(fallbackMessage);
 };
 
 
 /**
  * Edits an image based on a textual prompt using Gemini.
- * @param base64Data The base64 encoded string of the source image.
- * @param prompt The text prompt describing the desired changes.
+ * @param request The source image, the prompt describing the desired changes and an optional mask.
  * @returns A promise that resolves to an object containing the edited image and the prompt used.
  */
-export const editImage = async (
-  base64Data: string,
-  prompt: string,
-): Promise<{ image: string; prompt: string; }> => {
+async function editImageWithGemini(request: EditRequest): Promise<GeneratedImage> {
+  const { image, prompt, mask, settings, projectId } = request;
+  // Gemini has no mask parameter, so the mask goes in as a second image with instructions.
+  // The caller composites the result, so changes outside the mask are discarded anyway.
+  const instruction = mask
+    ? `The second image is a mask of the first. Apply the following change only inside the white area of the mask, leaving everything in the black area exactly as it is, and keep the image the same size: ${prompt}`
+    : prompt;
+
   try {
     const ai = getAiClient();
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
+    const model = settings.imageModel;
+    const response = await scheduleRequest(model, () => ai.models.generateContent({
+      model,
       contents: {
         parts: [
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: 'image/jpeg',
-            },
-          },
-          { text: prompt },
+          { inlineData: image },
+          ...(mask ? [{ inlineData: { data: mask, mimeType: 'image/png' } }] : []),
+          { text: instruction },
         ],
       },
       config: {
+        ...getContentConfig(settings),
         responseModalities: [Modality.IMAGE, Modality.TEXT],
       },
-    });
+    }));
+    recordUsage({ model, projectId, operation: 'edit', usage: response.usageMetadata, imageCount: countImageParts(response.candidates?.[0]?.content?.parts) });
 
     const candidate = response.candidates?.[0];
 
@@ -311,7 +579,8 @@ export const editImage = async (
         if (part.inlineData) {
           return {
               image: part.inlineData.data,
-              prompt: `Edited with user prompt: "${prompt}"`
+              mimeType: part.inlineData.mimeType ?? 'image/png',
+              prompt: mask ? `Edited masked area with user prompt: "${prompt}"` : `Edited with user prompt: "${prompt}"`
           };
         }
       }
@@ -324,17 +593,56 @@ export const editImage = async (
     throw new Error('No image was generated in the API response for editing.');
   } catch (error) {
     console.error("Error calling Gemini API for editing:", error);
-    if (error instanceof Error) {
-        if (error.message.includes('API key not valid')) {
-            throw new Error('Your Gemini API key is not valid. Please check your configuration.');
-        }
-        if (error.message.includes('429') || error.message.includes('RESOURCE_EXHAUSTED')) {
-            throw new Error('API rate limit or quota exceeded. Please try again later.');
-        }
-        if (error.message.includes('blocked')) {
-            throw error;
-        }
+    throw toFriendlyError(error, 'Failed to edit image with Gemini. Check the console for details.');
+  }
+}
+
+/**
+ * Checks that an API key is accepted by looking up a model, which costs nothing.
+ * @param apiKey The key to test.
+ * @throws An error explaining why the key was rejected.
+ */
+export const testApiKey = async (apiKey: string): Promise<void> => {
+  try {
+    await new GoogleGenAI({ apiKey }).models.get({ model: GEMINI_MODELS.text[0] });
+  } catch (error) {
+    console.error('API key test failed:', error);
+    const status = getErrorStatus(error);
+    if (status === 429) {
+      throw new Error('The key works but has hit its rate limit or quota right now.');
     }
-    throw new Error('Failed to edit image with Gemini. Check the console for details.');
+    if ((error instanceof Error && /API key not valid|API_KEY_INVALID/.test(error.message)) || status === 400 || status === 401 || status === 403) {
+      throw new Error('The API rejected this key. Check that it was copied completely and that the Gemini API is enabled for it.');
+    }
+    throw new Error('The key could not be tested. Check your connection and try again.');
   }
 };
+
+/** Gemini for description, translation, image-to-image and editing; Imagen for text-to-image. */
+export const geminiProvider: ImageProvider = {
+  id: 'google',
+  name: 'Google Gemini & Imagen',
+  requiresApiKey: true,
+  supportsReferences: true,
+  maxImagesPerRequest: IMAGEN_MAX_IMAGES,
+  models: GEMINI_MODELS,
+  describe: describeImage,
+  translate: translateText,
+  imageToImage: async (request) => {
+    try {
+      return await regenerateImageWithGemini(request);
+    } catch (error) {
+      console.error('Error calling gemini API for regeneration:', error);
+      throw toFriendlyError(error, 'Failed to regenerate image with gemini. Check the console for details.');
+    }
+  },
+  textToImage: async (request) => {
+    try {
+      return await generateImageWithImagen(request);
+    } catch (error) {
+      console.error('Error calling imagen API for regeneration:', error);
+      throw toFriendlyError(error, 'Failed to regenerate image with imagen. Check the console for details.');
+    }
+  },
+  edit: editImageWithGemini,
+};
@@ -0,0 +1,116 @@
+import { GenerationSettings, InlineImage, ProviderId, StyleChoice } from "../types";
+
+/** Already-regenerated frames shown to the model so a sequence keeps one consistent look. */
+export interface SequenceContext {
+  /** The regenerated frame just before this one. */
+  previousFrame?: InlineImage;
+  /** The frame chosen to define the look of the whole sequence. */
+  anchorFrame?: InlineImage;
+}
+
+export interface ImageToImageRequest {
+  image: InlineImage;
+  style: StyleChoice;
+  /** Base64 JPEG images whose look should be matched instead of the style's. */
+  styleReferences?: string[];
+  /** Regenerated frames to stay consistent with. */
+  sequenceContext?: SequenceContext;
+  settings: GenerationSettings;
+  /** The project the call's usage is charged to, or null when none is open. */
+  projectId: string | null;
+}
+
+export interface TextToImageRequest {
+  prompt: string;
+  style: StyleChoice;
+  aspectRatio: number;
+  /** How many images to return from the one request. */
+  numberOfImages: number;
+  settings: GenerationSettings;
+  /** The project the call's usage is charged to, or null when none is open. */
+  projectId: string | null;
+}
+
+export interface EditRequest {
+  image: InlineImage;
+  prompt: string;
+  /** Base64 PNG mask, white where the image may change and black elsewhere. */
+  mask?: string;
+  settings: GenerationSettings;
+  /** The project the call's usage is charged to, or null when none is open. */
+  projectId: string | null;
+}
+
+/** A generated base64 image and the prompt that produced it. */
+export interface GeneratedImage {
+  image: string;
+  /** The image's format, as the model returned it. */
+  mimeType: string;
+  prompt: string;
+}
+
+/** Generated images and the prompt that produced them. */
+export interface GeneratedImages {
+  /** Each image with its own format, since separate requests may return different ones. */
+  images: InlineImage[];
+  prompt: string;
+}
+
+/** The model versions a provider offers for each kind of operation, most recommended first. */
+export interface ProviderModels {
+  text: string[];
+  image: string[];
+  textToImage: string[];
+}
+
+/**
+ * A backend for every AI operation the app performs. 'gemini' regeneration runs
+ * imageToImage and 'imagen' regeneration runs describe followed by textToImage.
+ */
+export interface ImageProvider {
+  id: ProviderId;
+  name: string;
+  /** Whether calls go to a paid API, so an API key is needed and usage costs money. */
+  requiresApiKey: boolean;
+  /** Whether imageToImage can use style references and sequence context. */
+  supportsReferences: boolean;
+  /** The most images textToImage returns for a single request. */
+  maxImagesPerRequest: number;
+  /** Selectable model versions; empty lists when the provider has no model choice. */
+  models: ProviderModels;
+  /**
+   * Generates a detailed, objective description of an image, suitable as a text-to-image prompt.
+   * @param image The image to describe.
+   * @param settings The model and parameters to use.
+   * @param projectId The project the call's usage is charged to, or null when none is open.
+   * @returns A promise that resolves to the description.
+   */
+  describe: (image: InlineImage, settings: GenerationSettings, projectId: string | null) => Promise<string>;
+  /**
+   * Translates text to another language.
+   * @param text The text to translate.
+   * @param targetLanguage The target language (e.g., 'Indonesian').
+   * @param settings The model and parameters to use.
+   * @param projectId The project the call's usage is charged to, or null when none is open.
+   * @returns A promise that resolves to the translated text.
+   */
+  translate: (text: string, targetLanguage: string, settings: GenerationSettings, projectId: string | null) => Promise<string>;
+  /**
+   * Recreates an image in a style, keeping its composition.
+   * @param request The source image, style, optional references and context, and generation settings.
+   * @returns A promise that resolves to the new image and the prompt used.
+   */
+  imageToImage: (request: ImageToImageRequest) => Promise<GeneratedImage>;
+  /**
+   * Creates new images from a text prompt in a style.
+   * @param request The prompt, style, aspect ratio, image count and generation settings.
+   * @returns A promise that resolves to the new images and the prompt used.
+   */
+  textToImage: (request: TextToImageRequest) => Promise<GeneratedImages>;
+  /**
+   * Changes an image as a prompt describes, optionally only inside a mask.
+   * @param request The image, the requested change, an optional mask and generation settings.
+   * @returns A promise that resolves to the edited image and a description of the edit.
+   */
+  edit: (request: EditRequest) => Promise<GeneratedImage>;
+}
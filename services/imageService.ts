@@ -0,0 +1,97 @@
+import { GenerationSettings, InlineImage, ProviderId, RegenerationModel, StyleChoice } from "../types";
+import { GeneratedImage, GeneratedImages, ImageProvider, SequenceContext } from "./imageProvider";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+/** The most variations that can be requested for one frame. */
+export const MAX_VARIATIONS = 4;
+
+const PROVIDERS: Record<ProviderId, ImageProvider> = {
+  google: geminiProvider,
+  mock: mockProvider,
+};
+
+/** Settings for new projects: Google's recommended models and the APIs' own defaults. */
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  textModel: geminiProvider.models.text[0],
+  imageModel: geminiProvider.models.image[0],
+  textToImageModel: geminiProvider.models.textToImage[0],
+  temperature: null,
+  seed: null,
+  outputMimeType: 'image/jpeg',
+  personGeneration: 'MODEL_DEFAULT',
+  safetyLevel: 'MODEL_DEFAULT',
+};
+
+/** Every available provider, in the order they are offered. */
+export const IMAGE_PROVIDERS: ImageProvider[] = Object.values(PROVIDERS);
+
+/**
+ * Looks up a provider by id.
+ * @param id The provider id; unknown ids fall back to Google.
+ * @returns The provider.
+ */
+export const getProvider = (id: ProviderId): ImageProvider => PROVIDERS[id] ?? geminiProvider;
+
+interface RegenerateOptions {
+  provider: ProviderId;
+  model: RegenerationModel;
+  style: StyleChoice;
+  aspectRatio: number;
+  /** The source frame, required for image-to-image. */
+  image?: InlineImage;
+  /** The frame description, required for text-to-image. */
+  prompt?: string;
+  /** Base64 JPEG style references; only image-to-image can use them. */
+  styleReferences?: string[];
+  /** Regenerated frames to stay consistent with; only image-to-image can use them. */
+  sequenceContext?: SequenceContext;
+  /** How many variations to generate, up to MAX_VARIATIONS. Defaults to 1. */
+  variations?: number;
+  settings: GenerationSettings;
+  /** The project the calls' usage is charged to, or null when none is open. */
+  projectId: string | null;
+}
+
+/**
+ * Runs image-to-image once per variation, since it returns a single image per call.
+ * The calls run in parallel within the frame's job, on top of the queue's frames-at-once limit;
+ * each still waits for the model's requests-per-minute limit.
+ * Succeeds if at least one call does, so one blocked variation doesn't lose the others.
+ */
+const regenerateVariations = async (
+  count: number,
+  regenerate: () => Promise<GeneratedImage>
+): Promise<GeneratedImages> => {
+  const results = await Promise.allSettled(Array.from({ length: count }, regenerate));
+  const succeeded = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+  if (succeeded.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+  return { images: succeeded.map(result => ({ data: result.image, mimeType: result.mimeType })), prompt: succeeded[0].prompt };
+};
+
+/**
+ * Regenerates an image with the chosen provider, image-to-image for 'gemini' and text-to-image for 'imagen'.
+ * @param options The provider, regeneration mode, style and source data.
+ * @returns A promise that resolves to an object containing the new images, each with its MIME type, and the prompt used.
+ */
+export const regenerateImage = async (
+  options: RegenerateOptions
+): Promise<GeneratedImages> => {
+  const { model, style, aspectRatio, image, prompt, styleReferences, sequenceContext, settings, projectId } = options;
+  const provider = getProvider(options.provider);
+  const variations = Math.min(MAX_VARIATIONS, Math.max(1, Math.round(options.variations ?? 1)));
+
+  if (model === 'imagen') {
+    if (!prompt) {
+      throw new Error('A text prompt is required for text-to-image generation.');
+    }
+    return provider.textToImage({ prompt, style, aspectRatio, numberOfImages: Math.min(variations, provider.maxImagesPerRequest), settings, projectId });
+  }
+
+  if (!image) {
+    throw new Error('A source image is required for image-to-image generation.');
+  }
+  return regenerateVariations(variations, () => provider.imageToImage({ image, style, styleReferences, sequenceContext, settings, projectId }));
+};
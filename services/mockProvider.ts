@@ -0,0 +1,230 @@
+/**
+ * An offline provider that imitates the AI operations with canvas filters.
+ * The same input always gives the same output, and nothing leaves the browser,
+ * so the whole pipeline can be demonstrated and developed without an API key.
+ */
+
+import { ArtStyle, InlineImage, StyleChoice } from "../types";
+import { GeneratedImage, ImageProvider } from "./imageProvider";
+
+interface MockLook {
+  /** A CSS filter applied when drawing the image. */
+  filter: string;
+  /** Colour levels per channel, for a flat, illustrated look. */
+  posterize?: number;
+}
+
+const BUILT_IN_LOOKS: Record<ArtStyle, MockLook> = {
+  [ArtStyle.REALISTIC]: { filter: 'contrast(1.15) saturate(1.1)' },
+  [ArtStyle.CARTOON]: { filter: 'saturate(1.8) contrast(1.25)', posterize: 6 },
+  [ArtStyle.THREE_D_PIXAR]: { filter: 'saturate(1.35) brightness(1.08) blur(1px)' },
+  [ArtStyle.ANIME]: { filter: 'saturate(1.5) contrast(1.15) hue-rotate(-10deg)', posterize: 8 },
+  [ArtStyle.VINTAGE_PHOTO]: { filter: 'sepia(0.9) contrast(0.9) brightness(0.95)' },
+  [ArtStyle.CLAYMATION]: { filter: 'saturate(1.4) blur(1.5px)', posterize: 10 },
+  [ArtStyle.FANTASY_ART]: { filter: 'hue-rotate(40deg) saturate(1.4) contrast(1.1)' },
+  [ArtStyle.NEON_PUNK]: { filter: 'hue-rotate(200deg) saturate(2) contrast(1.3)' },
+};
+
+/** Named colours used to describe an image's dominant tone. */
+const COLOR_NAMES: Array<{ name: string; rgb: [number, number, number] }> = [
+  { name: 'red', rgb: [200, 50, 50] },
+  { name: 'orange', rgb: [230, 140, 40] },
+  { name: 'yellow', rgb: [230, 210, 60] },
+  { name: 'green', rgb: [60, 160, 70] },
+  { name: 'teal', rgb: [40, 150, 150] },
+  { name: 'blue', rgb: [50, 90, 200] },
+  { name: 'purple', rgb: [130, 60, 180] },
+  { name: 'pink', rgb: [230, 120, 170] },
+  { name: 'brown', rgb: [120, 80, 50] },
+  { name: 'grey', rgb: [128, 128, 128] },
+  { name: 'white', rgb: [235, 235, 235] },
+  { name: 'black', rgb: [20, 20, 20] },
+];
+
+/** The long side of images created by textToImage, in pixels. */
+const GENERATED_SIZE = 768;
+
+/** FNV-1a, for turning prompts and style names into stable seeds. */
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** A small seeded random number generator (mulberry32). */
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) >>> 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const getStyleName = (style: StyleChoice): string => (typeof style === 'string' ? style : style.name);
+
+const getLook = (style: StyleChoice): MockLook => {
+  if (typeof style === 'string') {
+    return BUILT_IN_LOOKS[style] ?? { filter: 'none' };
+  }
+  return { filter: `hue-rotate(${hashString(style.name) % 360}deg) saturate(1.3)` };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The mock provider could not load an image.'));
+    image.src = src;
+  });
+};
+
+const loadInlineImage = (image: InlineImage) => loadImage(`data:${image.mimeType};base64,${image.data}`);
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not get canvas context.');
+  }
+  return { canvas, context };
+};
+
+const toBase64Jpeg = (canvas: HTMLCanvasElement): string => canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+
+const getAverageColor = (source: CanvasImageSource): [number, number, number] => {
+  const { context } = createCanvas(16, 16);
+  context.drawImage(source, 0, 0, 16, 16);
+  const data = context.getImageData(0, 0, 16, 16).data;
+  const sum = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    sum[0] += data[i];
+    sum[1] += data[i + 1];
+    sum[2] += data[i + 2];
+  }
+  const count = data.length / 4;
+  return [Math.round(sum[0] / count), Math.round(sum[1] / count), Math.round(sum[2] / count)];
+};
+
+/**
+ * Draws an image through a look's filter and posterization.
+ * @param source The image to draw.
+ * @param width The output width.
+ * @param height The output height.
+ * @param look The filter to apply.
+ * @returns A canvas holding the filtered image.
+ */
+const applyLook = (source: CanvasImageSource, width: number, height: number, look: MockLook): HTMLCanvasElement => {
+  const { canvas, context } = createCanvas(width, height);
+  context.filter = look.filter;
+  context.drawImage(source, 0, 0, width, height);
+  context.filter = 'none';
+
+  if (look.posterize) {
+    const step = 255 / (look.posterize - 1);
+    const imageData = context.getImageData(0, 0, width, height);
+    for (let i = 0; i < imageData.data.length; i += 4) {
+      imageData.data[i] = Math.round(imageData.data[i] / step) * step;
+      imageData.data[i + 1] = Math.round(imageData.data[i + 1] / step) * step;
+      imageData.data[i + 2] = Math.round(imageData.data[i + 2] / step) * step;
+    }
+    context.putImageData(imageData, 0, 0);
+  }
+  return canvas;
+};
+
+const describeImage = async (image: InlineImage): Promise<string> => {
+  const source = await loadInlineImage(image);
+  const [r, g, b] = getAverageColor(source);
+  const nearest = COLOR_NAMES.reduce((best, color) => {
+    const distance = (color.rgb[0] - r) ** 2 + (color.rgb[1] - g) ** 2 + (color.rgb[2] - b) ** 2;
+    return distance < best.distance ? { name: color.name, distance } : best;
+  }, { name: 'grey', distance: Infinity });
+  const brightness = (r * 299 + g * 587 + b * 114) / 1000;
+  const lighting = brightness > 170 ? 'bright, airy' : brightness > 85 ? 'balanced, natural' : 'dim, moody';
+  const orientation = source.naturalWidth > source.naturalHeight ? 'landscape' : source.naturalWidth < source.naturalHeight ? 'portrait' : 'square';
+
+  return `A ${orientation} ${source.naturalWidth} by ${source.naturalHeight} pixel scene dominated by ${nearest.name} tones, with ${lighting} lighting and an average color of rgb(${r}, ${g}, ${b}). This is an offline mock description.`;
+};
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  name: 'Offline Mock (canvas filters)',
+  requiresApiKey: false,
+  supportsReferences: true,
+  maxImagesPerRequest: 4,
+  models: { text: [], image: [], textToImage: [] },
+
+  describe: describeImage,
+
+  translate: async (text, targetLanguage) => `[${targetLanguage}] ${text}`,
+
+  // Style references tint the result toward their average colour; sequence context is ignored.
+  imageToImage: async ({ image, style, styleReferences = [] }): Promise<GeneratedImage> => {
+    const source = await loadInlineImage(image);
+    const canvas = applyLook(source, source.naturalWidth, source.naturalHeight, getLook(style));
+
+    if (styleReferences.length > 0) {
+      const references = await Promise.all(styleReferences.map(data => loadInlineImage({ data, mimeType: 'image/jpeg' })));
+      const colors = references.map(getAverageColor);
+      const tint = [0, 1, 2].map(channel => Math.round(colors.reduce((sum, color) => sum + color[channel], 0) / colors.length));
+      const context = canvas.getContext('2d')!;
+      context.globalCompositeOperation = 'soft-light';
+      context.globalAlpha = 0.5;
+      context.fillStyle = `rgb(${tint.join(', ')})`;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    return {
+      image: toBase64Jpeg(canvas),
+      mimeType: 'image/jpeg',
+      prompt: `Mock image-to-image: ${getLook(style).filter}${styleReferences.length > 0 ? `, tinted by ${styleReferences.length} reference(s)` : ''} (${getStyleName(style)})`,
+    };
+  },
+
+  // Only the seed is used from the settings, so a fixed seed gives a different but repeatable image.
+  textToImage: async ({ prompt, style, aspectRatio, numberOfImages, settings }) => {
+    const width = aspectRatio >= 1 ? GENERATED_SIZE : Math.round(GENERATED_SIZE * aspectRatio);
+    const height = aspectRatio >= 1 ? Math.round(GENERATED_SIZE / aspectRatio) : GENERATED_SIZE;
+
+    const images = Array.from({ length: Math.max(1, numberOfImages) }, (_, index) => {
+      const random = createRandom(hashString(`${prompt}#${index}#${settings.seed ?? ''}`));
+      const { canvas, context } = createCanvas(width, height);
+
+      const gradient = context.createLinearGradient(0, 0, width, height);
+      gradient.addColorStop(0, `hsl(${Math.floor(random() * 360)}, 60%, 50%)`);
+      gradient.addColorStop(1, `hsl(${Math.floor(random() * 360)}, 60%, 20%)`);
+      context.fillStyle = gradient;
+      context.fillRect(0, 0, width, height);
+
+      for (let i = 0; i < 8; i++) {
+        context.fillStyle = `hsla(${Math.floor(random() * 360)}, 70%, 60%, 0.5)`;
+        context.beginPath();
+        context.arc(random() * width, random() * height, (0.05 + random() * 0.2) * Math.min(width, height), 0, Math.PI * 2);
+        context.fill();
+      }
+
+      context.fillStyle = 'rgba(255, 255, 255, 0.85)';
+      context.font = `${Math.round(height / 24)}px sans-serif`;
+      context.fillText(prompt.replace(/\s+/g, ' ').slice(0, 60), width * 0.05, height * 0.92, width * 0.9);
+
+      return { data: toBase64Jpeg(applyLook(canvas, width, height, getLook(style))), mimeType: 'image/jpeg' };
+    });
+
+    return { images, prompt: `${prompt} (mock, ${getStyleName(style)})` };
+  },
+
+  edit: async ({ image, prompt, mask }) => {
+    const source = await loadInlineImage(image);
+    const look = { filter: `hue-rotate(${hashString(prompt) % 360}deg) saturate(1.4)` };
+    return {
+      image: toBase64Jpeg(applyLook(source, source.naturalWidth, source.naturalHeight, look)),
+      mimeType: 'image/jpeg',
+      prompt: mask ? `Edited masked area with user prompt: "${prompt}"` : `Edited with user prompt: "${prompt}"`,
+    };
+  },
+};
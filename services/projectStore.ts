@@ -0,0 +1,241 @@
+import { ProjectData, ProjectSettings, ProjectSummary } from "../types";
+
+const DB_NAME = 'frame-regenerator';
+const DB_VERSION = 1;
+
+// Summaries are kept apart from the heavy frame data and the video blob so that
+// listing recent projects never has to read hundreds of base64 frames.
+const SUMMARY_STORE = 'projects';
+const DATA_STORE = 'projectData';
+const VIDEO_STORE = 'videos';
+
+const LAST_PROJECT_KEY = 'last_project_id';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use, creates) the IndexedDB database backing the project store.
+ * The connection is cached for the lifetime of the page.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+        db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DATA_STORE)) {
+        db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(VIDEO_STORE)) {
+        db.createObjectStore(VIDEO_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error('Failed to open the project database.'));
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+  });
+};
+
+const summarize = (data: ProjectData, base: Pick<ProjectSummary, 'id' | 'name' | 'createdAt'>): ProjectSummary => ({
+  ...base,
+  updatedAt: Date.now(),
+  thumbnail: data.originalFrames[0]?.src,
+  frameCount: data.originalFrames.length,
+  regeneratedCount: data.regeneratedFrames.filter(f => f).length,
+});
+
+/**
+ * Lists all stored projects, most recently updated first.
+ * @returns A promise resolving to the project summaries.
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SUMMARY_STORE, 'readonly');
+  const summaries = await requestToPromise<ProjectSummary[]>(transaction.objectStore(SUMMARY_STORE).getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Creates a new, empty project for an uploaded video.
+ * @param videoFile The source video, stored as a blob alongside the project.
+ * @param settings The extraction and regeneration settings to start with.
+ * @returns A promise resolving to the new project's summary.
+ */
+export async function createProject(videoFile: File, settings: ProjectSettings): Promise<ProjectSummary> {
+  const db = await openDatabase();
+  const id = crypto.randomUUID();
+  const data: ProjectData = {
+    id,
+    aspectRatio: null,
+    originalFrames: [],
+    regeneratedFrames: [],
+    styleReferences: [],
+    settings,
+  };
+  const summary = summarize(data, { id, name: videoFile.name, createdAt: Date.now() });
+
+  const transaction = db.transaction([SUMMARY_STORE, DATA_STORE, VIDEO_STORE], 'readwrite');
+  transaction.objectStore(SUMMARY_STORE).put(summary);
+  transaction.objectStore(DATA_STORE).put(data);
+  transaction.objectStore(VIDEO_STORE).put(videoFile, id);
+  await transactionDone(transaction);
+
+  return summary;
+}
+
+/**
+ * Loads a project's frames, settings and source video.
+ * @param id The project id.
+ * @returns A promise resolving to the project, or null if it no longer exists.
+ */
+export async function loadProject(id: string): Promise<{ summary: ProjectSummary; data: ProjectData; videoFile: File } | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARY_STORE, DATA_STORE, VIDEO_STORE], 'readonly');
+  const [summary, data, video] = await Promise.all([
+    requestToPromise<ProjectSummary | undefined>(transaction.objectStore(SUMMARY_STORE).get(id)),
+    requestToPromise<ProjectData | undefined>(transaction.objectStore(DATA_STORE).get(id)),
+    requestToPromise<Blob | undefined>(transaction.objectStore(VIDEO_STORE).get(id)),
+  ]);
+
+  if (!summary || !data || !video) return null;
+
+  // Blobs written by older browsers may come back without their File wrapper.
+  const videoFile = video instanceof File ? video : new File([video], summary.name, { type: video.type });
+  return { summary, data, videoFile };
+}
+
+/**
+ * Persists the current frames and settings of an existing project.
+ * @param data The full project state to store.
+ * @returns A promise resolving to the refreshed summary.
+ */
+export async function saveProject(data: ProjectData): Promise<ProjectSummary> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+  const summaryStore = transaction.objectStore(SUMMARY_STORE);
+
+  const existing = await requestToPromise<ProjectSummary | undefined>(summaryStore.get(data.id));
+  if (!existing) {
+    transaction.abort();
+    throw new Error('Cannot save a project that does not exist.');
+  }
+
+  const summary = summarize(data, existing);
+  summaryStore.put(summary);
+  transaction.objectStore(DATA_STORE).put(data);
+  await transactionDone(transaction);
+
+  return summary;
+}
+
+/**
+ * Renames a stored project.
+ * @param id The project id.
+ * @param name The new display name.
+ * @returns A promise resolving to the updated summary.
+ */
+export async function renameProject(id: string, name: string): Promise<ProjectSummary> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SUMMARY_STORE, 'readwrite');
+  const summaryStore = transaction.objectStore(SUMMARY_STORE);
+
+  const existing = await requestToPromise<ProjectSummary | undefined>(summaryStore.get(id));
+  if (!existing) {
+    transaction.abort();
+    throw new Error('Cannot rename a project that does not exist.');
+  }
+
+  const summary = { ...existing, name, updatedAt: Date.now() };
+  summaryStore.put(summary);
+  await transactionDone(transaction);
+
+  return summary;
+}
+
+/**
+ * Copies a project, including its frames, settings and source video, under a new id.
+ * @param id The id of the project to copy.
+ * @param name The display name for the copy.
+ * @returns A promise resolving to the new project's summary.
+ */
+export async function duplicateProject(id: string, name: string): Promise<ProjectSummary> {
+  const project = await loadProject(id);
+  if (!project) {
+    throw new Error('Cannot duplicate a project that does not exist.');
+  }
+
+  const db = await openDatabase();
+  const newId = crypto.randomUUID();
+  const data: ProjectData = { ...project.data, id: newId };
+  const summary = summarize(data, { id: newId, name, createdAt: Date.now() });
+
+  const transaction = db.transaction([SUMMARY_STORE, DATA_STORE, VIDEO_STORE], 'readwrite');
+  transaction.objectStore(SUMMARY_STORE).put(summary);
+  transaction.objectStore(DATA_STORE).put(data);
+  transaction.objectStore(VIDEO_STORE).put(project.videoFile, newId);
+  await transactionDone(transaction);
+
+  return summary;
+}
+
+/**
+ * Permanently removes a project and its source video.
+ * @param id The project id.
+ */
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARY_STORE, DATA_STORE, VIDEO_STORE], 'readwrite');
+  transaction.objectStore(SUMMARY_STORE).delete(id);
+  transaction.objectStore(DATA_STORE).delete(id);
+  transaction.objectStore(VIDEO_STORE).delete(id);
+  await transactionDone(transaction);
+
+  if (getLastProjectId() === id) {
+    setLastProjectId(null);
+  }
+}
+
+/**
+ * Returns the id of the project that was open when the page was last used.
+ */
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+/**
+ * Remembers which project is open so it can be restored after a reload.
+ * @param id The project id, or null to forget it.
+ */
+export const setLastProjectId = (id: string | null): void => {
+  if (id) {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  } else {
+    localStorage.removeItem(LAST_PROJECT_KEY);
+  }
+};
@@ -0,0 +1,164 @@
+import { CustomArtStyle } from "../types";
+
+const CUSTOM_STYLES_KEY = 'custom_art_styles';
+
+const THUMBNAIL_SIZE = 96;
+/** Reference images are downscaled so that several fit in one request. */
+const REFERENCE_MAX_DIMENSION = 1024;
+
+/** Format marker written into exported libraries so imports can be recognized. */
+const LIBRARY_FORMAT = 'frame-regenerator-styles';
+const LIBRARY_VERSION = 1;
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+/**
+ * Checks that a value has the shape of a custom style, tolerating a missing id.
+ */
+const isStyleLike = (value: unknown): value is Omit<CustomArtStyle, 'id'> & { id?: string } => {
+  if (typeof value !== 'object' || value === null) return false;
+  const style = value as Record<string, unknown>;
+  return typeof style.name === 'string'
+    && style.name.trim() !== ''
+    && typeof style.geminiPrompt === 'string'
+    && typeof style.imagenSuffix === 'string'
+    && isOptionalString(style.id)
+    && isOptionalString(style.negativePrompt)
+    && isOptionalString(style.thumbnail);
+};
+
+/**
+ * Loads the custom styles saved in this browser.
+ * @returns The saved styles, or an empty list if none are saved or the stored data is unreadable.
+ */
+export const loadCustomStyles = (): CustomArtStyle[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_STYLES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((style): style is CustomArtStyle => isStyleLike(style) && !!style.id) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Persists the custom style library.
+ * @param styles The complete list of custom styles.
+ * @throws An error if browser storage is full, usually because of large thumbnails.
+ */
+export const saveCustomStyles = (styles: CustomArtStyle[]): void => {
+  try {
+    localStorage.setItem(CUSTOM_STYLES_KEY, JSON.stringify(styles));
+  } catch {
+    throw new Error('Browser storage is full. Remove some styles or their thumbnails and try again.');
+  }
+};
+
+/**
+ * Serializes styles as a JSON document that can be shared and imported elsewhere.
+ * @param styles The styles to export.
+ * @returns The JSON text.
+ */
+export const exportStyleLibrary = (styles: CustomArtStyle[]): string => {
+  return JSON.stringify({ format: LIBRARY_FORMAT, version: LIBRARY_VERSION, styles }, null, 2);
+};
+
+/**
+ * Parses an exported style library. Imported styles get fresh ids so they never
+ * replace styles already in the library.
+ * @param json The JSON text, either an exported library or a bare array of styles.
+ * @returns The imported styles.
+ * @throws An error if the text is not a valid style library.
+ */
+export const parseStyleLibrary = (json: string): CustomArtStyle[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const styles = Array.isArray(parsed) ? parsed : (parsed as { styles?: unknown } | null)?.styles;
+  if (!Array.isArray(styles)) {
+    throw new Error('The file does not contain a list of styles.');
+  }
+  const invalidIndex = styles.findIndex(style => !isStyleLike(style));
+  if (invalidIndex !== -1) {
+    throw new Error(`Style ${invalidIndex + 1} is missing a name, Gemini prompt or Imagen suffix.`);
+  }
+
+  return styles.filter(isStyleLike).map(style => ({
+    id: crypto.randomUUID(),
+    name: style.name.trim(),
+    geminiPrompt: style.geminiPrompt,
+    imagenSuffix: style.imagenSuffix,
+    negativePrompt: style.negativePrompt || undefined,
+    thumbnail: style.thumbnail || undefined,
+  }));
+};
+
+const loadImageFile = (file: File): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`${file.name} is not an image this browser can read.`));
+    };
+    image.src = url;
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not get canvas context.');
+  }
+  return { canvas, context };
+};
+
+/**
+ * Shrinks an image file to a small square JPEG thumbnail, so it fits in local storage.
+ * @param file The image file chosen by the user.
+ * @returns A promise resolving to the thumbnail as a data URL.
+ */
+export const createStyleThumbnail = async (file: File): Promise<string> => {
+  const image = await loadImageFile(file);
+  const { canvas, context } = createCanvas(THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+  // Crop to the centred square.
+  const side = Math.min(image.naturalWidth, image.naturalHeight);
+  context.drawImage(
+    image,
+    (image.naturalWidth - side) / 2,
+    (image.naturalHeight - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    THUMBNAIL_SIZE,
+    THUMBNAIL_SIZE
+  );
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+/**
+ * Converts an image file to a downscaled JPEG for use as a style reference.
+ * Re-encoding also means every reference can be sent with the same MIME type.
+ * @param file The image file chosen by the user.
+ * @returns A promise resolving to the reference as a JPEG data URL.
+ */
+export const createStyleReference = async (file: File): Promise<string> => {
+  const image = await loadImageFile(file);
+  const scale = Math.min(1, REFERENCE_MAX_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const { canvas, context } = createCanvas(width, height);
+  context.drawImage(image, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
@@ -0,0 +1,294 @@
+import { GenerationSettings, RegenerationModel, UsageBudget, UsageEntry, UsageOperation } from "../types";
+
+const USAGE_LEDGER_KEY = 'usage_ledger';
+const USAGE_BUDGET_KEY = 'usage_budget';
+
+/**
+ * Entries older than this are dropped. It is longer than any budget period,
+ * so a budget always sees every call in its period.
+ */
+export const MAX_ENTRY_AGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ModelPrice {
+  /** US dollars per million prompt tokens. */
+  inputPerMillion?: number;
+  /** US dollars per million response tokens, thinking included. */
+  outputPerMillion?: number;
+  /** US dollars per returned image, for models billed by the image. */
+  perImage?: number;
+}
+
+/** Approximate paid-tier list prices. They only feed estimates; the Google Cloud bill is authoritative. */
+const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash-image-preview': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'imagen-4.0-generate-001': { perImage: 0.04 },
+  'imagen-4.0-fast-generate-001': { perImage: 0.02 },
+  'imagen-4.0-ultra-generate-001': { perImage: 0.06 },
+  'imagen-3.0-generate-002': { perImage: 0.03 },
+};
+
+// Token counts used for estimates, from Google's documented per-image token costs.
+const TOKENS_PER_INPUT_IMAGE = 258;
+const TOKENS_PER_OUTPUT_IMAGE = 1290;
+const PROMPT_TOKENS = 150;
+const DESCRIPTION_TOKENS = 300;
+
+/** The token counts the Gemini API reports in a response's `usageMetadata`. */
+export interface TokenUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+interface UsageRecord {
+  model: string;
+  /** The project the call was made for, or null when none was open. */
+  projectId: string | null;
+  operation: UsageOperation;
+  usage?: TokenUsage;
+  imageCount: number;
+}
+
+/** Spend grouped under one key, such as a day or a project. */
+export interface UsageSummary {
+  key: string;
+  requests: number;
+  totalTokens: number;
+  imageCount: number;
+  cost: number;
+}
+
+/** Drops entries older than MAX_ENTRY_AGE_DAYS. */
+const dropExpired = (usage: UsageEntry[], now = Date.now()): UsageEntry[] =>
+  usage.filter(entry => entry.timestamp >= now - MAX_ENTRY_AGE_DAYS * DAY_MS);
+
+/**
+ * Merges calls from before today into one entry per day, project, model and operation,
+ * so the ledger stays small enough for browser storage while daily and monthly totals stay exact.
+ */
+const compactEntries = (usage: UsageEntry[], now = Date.now()): UsageEntry[] => {
+  const today = getDayKey(now);
+  const merged = new Map<string, UsageEntry>();
+  const recent: UsageEntry[] = [];
+  for (const entry of usage) {
+    const day = getDayKey(entry.timestamp);
+    if (day === today) {
+      recent.push(entry);
+      continue;
+    }
+    const key = [day, entry.projectId ?? '', entry.model, entry.operation].join('|');
+    const total = merged.get(key);
+    merged.set(key, total ? {
+      ...total,
+      promptTokens: total.promptTokens + entry.promptTokens,
+      outputTokens: total.outputTokens + entry.outputTokens,
+      totalTokens: total.totalTokens + entry.totalTokens,
+      imageCount: total.imageCount + entry.imageCount,
+      cost: total.cost + entry.cost,
+      requests: (total.requests ?? 1) + (entry.requests ?? 1),
+    } : entry);
+  }
+  return [...merged.values(), ...recent];
+};
+
+const loadEntries = (): UsageEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(USAGE_LEDGER_KEY) ?? '[]');
+    return Array.isArray(stored) ? dropExpired(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+let entries = loadEntries();
+const listeners = new Set<(entries: UsageEntry[]) => void>();
+
+const saveEntries = (next: UsageEntry[]) => {
+  entries = next;
+  try {
+    localStorage.setItem(USAGE_LEDGER_KEY, JSON.stringify(entries));
+  } catch (error) {
+    // Compaction keeps the ledger small, so this only happens when storage is already full.
+    // Losing the ledger is better than failing the call that was just paid for.
+    console.warn('Could not save the usage ledger.', error);
+  }
+  listeners.forEach(listener => listener(entries));
+};
+
+/**
+ * Estimates the cost of a call at list prices.
+ * @param model The model id.
+ * @param promptTokens Prompt tokens sent.
+ * @param outputTokens Response tokens returned, thinking included.
+ * @param imageCount Images returned.
+ * @returns The cost in US dollars; 0 for models without a known price.
+ */
+export const getCost = (model: string, promptTokens: number, outputTokens: number, imageCount: number): number => {
+  const price = MODEL_PRICING[model];
+  if (!price) return 0;
+  return (promptTokens * (price.inputPerMillion ?? 0) + outputTokens * (price.outputPerMillion ?? 0)) / 1_000_000
+    + imageCount * (price.perImage ?? 0);
+};
+
+/**
+ * Formats a cost in US dollars, with an extra digit for amounts under a dollar.
+ */
+export const formatCost = (cost: number): string => `$${cost < 1 ? cost.toFixed(3) : cost.toFixed(2)}`;
+
+/**
+ * Adds a completed API call to the ledger.
+ * @param record The model, project, operation, the response's usage metadata and the number of images returned.
+ */
+export const recordUsage = ({ model, projectId, operation, usage, imageCount }: UsageRecord): void => {
+  const promptTokens = usage?.promptTokenCount ?? 0;
+  const outputTokens = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+  const entry: UsageEntry = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    model,
+    projectId,
+    operation,
+    promptTokens,
+    outputTokens,
+    totalTokens: usage?.totalTokenCount ?? promptTokens + outputTokens,
+    imageCount,
+    cost: getCost(model, promptTokens, outputTokens, imageCount),
+  };
+  saveEntries(compactEntries(dropExpired([...entries, entry])));
+};
+
+/**
+ * Returns every recorded call, oldest first.
+ */
+export const getUsageEntries = (): UsageEntry[] => entries;
+
+/**
+ * Calls the listener whenever the ledger changes.
+ * @param listener Receives the updated entries.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToUsage = (listener: (entries: UsageEntry[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Deletes every recorded call.
+ */
+export const clearUsage = (): void => saveEntries([]);
+
+/**
+ * Returns the local calendar day of a timestamp, e.g. '2025-03-14'.
+ */
+export const getDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Groups calls and totals their usage.
+ * @param usage The entries to group.
+ * @param getKey Returns the group an entry belongs to.
+ * @returns One summary per group, in order of first appearance.
+ */
+export const summarizeUsage = (usage: UsageEntry[], getKey: (entry: UsageEntry) => string): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary>();
+  for (const entry of usage) {
+    const key = getKey(entry);
+    const group = groups.get(key) ?? { key, requests: 0, totalTokens: 0, imageCount: 0, cost: 0 };
+    group.requests += entry.requests ?? 1;
+    group.totalTokens += entry.totalTokens;
+    group.imageCount += entry.imageCount;
+    group.cost += entry.cost;
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+};
+
+/**
+ * Totals the spend in the current day or month.
+ * @param usage The recorded calls.
+ * @param period The period to total.
+ * @param now The time that defines the current period.
+ * @returns The spend in US dollars.
+ */
+export const getSpend = (usage: UsageEntry[], period: UsageBudget['period'], now = Date.now()): number => {
+  const current = getDayKey(now);
+  const matches = (timestamp: number) => period === 'day'
+    ? getDayKey(timestamp) === current
+    : getDayKey(timestamp).slice(0, 7) === current.slice(0, 7);
+  return usage.reduce((sum, entry) => (matches(entry.timestamp) ? sum + entry.cost : sum), 0);
+};
+
+/**
+ * Loads the spending limit saved in this browser.
+ * @returns The budget, or null if none is set.
+ */
+export const loadBudget = (): UsageBudget | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(USAGE_BUDGET_KEY) ?? 'null');
+    return stored && typeof stored.limit === 'number' && (stored.period === 'day' || stored.period === 'month') ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Saves or removes the spending limit.
+ * @param budget The new budget, or null to remove it.
+ */
+export const saveBudget = (budget: UsageBudget | null): void => {
+  if (budget) {
+    localStorage.setItem(USAGE_BUDGET_KEY, JSON.stringify(budget));
+  } else {
+    localStorage.removeItem(USAGE_BUDGET_KEY);
+  }
+};
+
+/**
+ * Checks whether the saved budget has been used up.
+ * @returns True if a budget is set and this period's spend has reached it.
+ */
+export const isBudgetExceeded = (): boolean => {
+  const budget = loadBudget();
+  return !!budget && getSpend(entries, budget.period) >= budget.limit;
+};
+
+interface RegenerationEstimate {
+  model: RegenerationModel;
+  settings: GenerationSettings;
+  frameCount: number;
+  /** Frames without a prompt yet, which Imagen runs describe first. */
+  undescribedCount: number;
+  variations: number;
+  /** Style references and sequence context images sent with each Gemini request. */
+  extraImages: number;
+  /** Images Imagen returns per request. */
+  maxImagesPerRequest: number;
+}
+
+/**
+ * Estimates what regenerating frames will cost before any request is made.
+ * @param options The run's model, settings and size.
+ * @returns The estimated cost in US dollars.
+ */
+export const estimateRegenerationCost = (options: RegenerationEstimate): number => {
+  const { model, settings, frameCount, undescribedCount, variations, extraImages, maxImagesPerRequest } = options;
+
+  if (model === 'gemini') {
+    // Image-to-image makes one request per variation, each returning one image.
+    const promptTokens = TOKENS_PER_INPUT_IMAGE * (1 + extraImages) + PROMPT_TOKENS;
+    return frameCount * variations * getCost(settings.imageModel, promptTokens, TOKENS_PER_OUTPUT_IMAGE, 0);
+  }
+
+  const describeCost = undescribedCount * getCost(settings.textModel, TOKENS_PER_INPUT_IMAGE + PROMPT_TOKENS, DESCRIPTION_TOKENS, 0);
+  return describeCost + frameCount * getCost(settings.textToImageModel, 0, 0, Math.min(variations, maxImagesPerRequest));
+};
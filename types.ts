@@ -1,4 +1,3 @@
-
 export enum ArtStyle {
   REALISTIC = 'Hyper-Realistic',
   CARTOON = 'Vibrant Cartoon',
@@ -10,4 +9,267 @@ export enum ArtStyle {
   NEON_PUNK = 'Neon Punk',
 }
 
-export type RegenerationModel = 'gemini' | 'imagen';
\ No newline at end of file
+/** Base64 image data with its MIME type, as sent to the API. */
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+/** A user-defined art style from the style library. */
+export interface CustomArtStyle {
+  id: string;
+  name: string;
+  /** Instruction sent to Gemini together with the source frame. */
+  geminiPrompt: string;
+  /** Appended to the frame description for Imagen. */
+  imagenSuffix: string;
+  /** Things the generated image should avoid. */
+  negativePrompt?: string;
+  /** A small JPEG data URL shown in the style picker. */
+  thumbnail?: string;
+}
+
+/** A built-in style, or a custom style from the library. */
+export type StyleChoice = ArtStyle | CustomArtStyle;
+
+/** 'gemini' regenerates image-to-image; 'imagen' describes the frame, then generates text-to-image. */
+export type RegenerationModel = 'gemini' | 'imagen';
+
+/** The backend that performs AI operations: Google's APIs, or an offline mock that applies canvas filters. */
+export type ProviderId = 'google' | 'mock';
+
+/**
+ * How strictly generated content is filtered, from strictest to most permissive.
+ * 'MODEL_DEFAULT' leaves it to the model's own default.
+ */
+export type SafetyLevel = 'MODEL_DEFAULT' | 'BLOCK_LOW_AND_ABOVE' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_NONE';
+
+/** Whether text-to-image may depict people. 'MODEL_DEFAULT' leaves it to the model's own default. */
+export type PersonGeneration = 'MODEL_DEFAULT' | 'DONT_ALLOW' | 'ALLOW_ADULT' | 'ALLOW_ALL';
+
+/** Model versions and generation parameters used for a run. */
+export interface GenerationSettings {
+  /** Model for descriptions and translations. */
+  textModel: string;
+  /** Model for image-to-image regeneration and edits. */
+  imageModel: string;
+  /** Model for text-to-image generation. */
+  textToImageModel: string;
+  /** Sampling temperature, or null for the model's default. Text-to-image doesn't support it. */
+  temperature: number | null;
+  /** A fixed seed for more repeatable results, or null for a random one. Text-to-image doesn't support it. */
+  seed: number | null;
+  /** The image format text-to-image returns. */
+  outputMimeType: 'image/jpeg' | 'image/png';
+  personGeneration: PersonGeneration;
+  safetyLevel: SafetyLevel;
+}
+
+export type ExtractionBackend = 'webcodecs' | 'seek';
+
+/** 'similarity' keeps sharp frames that differ from the last kept one; 'scenes' keeps the sharpest frame of each shot. */
+export type ExtractionMode = 'similarity' | 'scenes';
+
+/** Where a frame came from in the source video and how it scored during extraction. */
+export interface FrameMetadata {
+  /** Presentation time in the source video, in seconds. */
+  timestamp?: number;
+  /** Index of the frame in presentation order, when it is known exactly. */
+  frameNumber?: number;
+  width?: number;
+  height?: number;
+  /** Variance of the Laplacian; higher is sharper. */
+  blurScore?: number;
+  /**
+   * How much the frame differed when it was picked: the mean pixel difference from the
+   * previously kept frame, or in scene mode the colour-histogram distance (%) at its cut.
+   */
+  similarityScore?: number;
+}
+
+export interface OriginalFrame extends FrameMetadata {
+  src: string;
+  /** The Imagen prompt: a generated description, or the user's own wording when promptEdited is set. */
+  prompt?: string;
+  /** Set when the prompt was written or changed by hand. */
+  promptEdited?: boolean;
+  translatedPrompt?: string;
+  /** Perceptual hash used to find look-alike frames. */
+  hash?: string;
+}
+
+/** An image shown in the preview modal. */
+export interface PreviewItem extends FrameMetadata {
+  src: string;
+  prompt?: string;
+  promptEdited?: boolean;
+  translatedPrompt?: string;
+  /** For a regenerated image, the frame it was made from, so the two can be compared. */
+  originalSrc?: string;
+  /** For a regenerated image, its versions and undo state. */
+  history?: VersionHistory;
+}
+
+/** One generated image for a frame. */
+export interface RegenerationCandidate {
+  src: string;
+  prompt: string;
+}
+
+/** One entry in a regenerated frame's version history. */
+export interface FrameVersion extends RegenerationCandidate {
+  id: string;
+  /** The version this one was edited from, or null when it was regenerated from the original frame. */
+  parentId: string | null;
+  kind: 'regenerate' | 'edit';
+  /** The model that produced the image; unknown for versions made before history was kept. */
+  model?: RegenerationModel;
+  /** The provider that produced the image; missing for versions made before providers existed. */
+  provider?: ProviderId;
+  /** Name of the style applied when regenerating. */
+  style?: string;
+  /** The model versions and parameters the image was made with. */
+  generation?: GenerationSettings;
+  createdAt?: number;
+}
+
+/** A frame's current result; src and prompt always mirror the current version. */
+export interface RegeneratedFrame extends RegenerationCandidate {
+  /** Every version of the frame, in creation order; parentId links them into a tree. */
+  versions?: FrameVersion[];
+  currentVersionId?: string;
+  /** Versions that were current before, most recent last. */
+  undoStack?: string[];
+  redoStack?: string[];
+  /** Variations saved before version history existed; read them through getVersions. */
+  candidates?: RegenerationCandidate[];
+}
+
+/** A regenerated frame's versions, as shown in the preview modal. */
+export interface VersionHistory {
+  versions: FrameVersion[];
+  currentVersionId: string;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface ProjectSettings {
+  selectedStyle: ArtStyle;
+  /** Id of the selected custom style; when set and still in the library, it is used instead of selectedStyle. */
+  customStyleId: string | null;
+  regenerationModel: RegenerationModel;
+  provider: ProviderId;
+  blurThreshold: number;
+  similarityThreshold: number;
+  extractionBackend: ExtractionBackend;
+  extractionMode: ExtractionMode;
+  sceneCutThreshold: number;
+  /** Whether Gemini sees the regenerated previous frame when regenerating the next one. */
+  usePreviousFrame: boolean;
+  /** A regenerated frame shown to Gemini with every frame to keep the sequence on one look. */
+  anchorFrameIndex: number | null;
+  /** How many variations to generate for each frame. */
+  variationCount: number;
+  generation: GenerationSettings;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail?: string;
+  frameCount: number;
+  regeneratedCount: number;
+}
+
+export interface ProjectData {
+  id: string;
+  aspectRatio: number | null;
+  originalFrames: OriginalFrame[];
+  regeneratedFrames: Array<RegeneratedFrame | null>;
+  /** JPEG data URLs whose look Gemini should match; missing in projects saved before references existed. */
+  styleReferences?: string[];
+  settings: ProjectSettings;
+}
+
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed' | 'blocked' | 'cancelled';
+
+export interface QueueJob<T> {
+  id: string;
+  payload: T;
+  status: JobStatus;
+  attempts: number;
+  error?: string;
+  /** The job whose failure kept this one from starting; retrying that job retries this one too. */
+  blockedBy?: string;
+}
+
+export interface RegenerationJob {
+  frameIndex: number;
+  provider: ProviderId;
+  model: RegenerationModel;
+  /** Custom styles are copied in, so later edits to the library don't change queued jobs. */
+  style: StyleChoice;
+  /** Base64 JPEG images whose palette and rendering Gemini should match. */
+  styleReferences: string[];
+  /** Waits for the previous frame's job and passes its result to Gemini as context. */
+  usePreviousFrame: boolean;
+  /** The anchor frame, when one is set. */
+  anchorImage?: InlineImage;
+  /** How many variations to generate. */
+  variations: number;
+  generation: GenerationSettings;
+  aspectRatio: number;
+  /** The project open when the job was queued, which its usage is charged to. */
+  projectId: string | null;
+}
+
+/** The result of the last check of an API key against the API. */
+export type ApiKeyStatus = 'untested' | 'valid' | 'invalid';
+
+/** A named Gemini API key saved in this browser. */
+export interface StoredApiKey {
+  id: string;
+  name: string;
+  key: string;
+  status: ApiKeyStatus;
+  /** When the key was last tested. */
+  checkedAt?: number;
+}
+
+/** How saved API keys are stored: in plain text, or encrypted with a passphrase and either locked or unlocked for this session. */
+export type ApiKeyEncryption = 'off' | 'locked' | 'unlocked';
+
+/** The kind of API call a usage entry records. */
+export type UsageOperation = 'describe' | 'translate' | 'regenerate' | 'generate' | 'edit';
+
+/** One paid API call, as recorded in the local usage ledger. */
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  model: string;
+  /** The project the call was made for, or null when none was open. */
+  projectId: string | null;
+  operation: UsageOperation;
+  /**
+   * The number of calls this entry totals. Calls from before today are merged into one entry
+   * per day, project, model and operation; missing means a single call.
+   */
+  requests?: number;
+  promptTokens: number;
+  /** Response tokens, including any thinking tokens. */
+  outputTokens: number;
+  totalTokens: number;
+  /** Images returned; per-image models are billed on this. */
+  imageCount: number;
+  /** Estimated cost in US dollars at list prices. */
+  cost: number;
+}
+
+/** A spending limit; new regeneration jobs are refused once it is reached. */
+export interface UsageBudget {
+  /** The limit in US dollars. */
+  limit: number;
+  period: 'day' | 'month';
+}
@@ -0,0 +1,162 @@
+import { applyPalette, buildPalette } from './colorQuantizer';
+import { encodeGif } from './gifEncoder';
+import { encodeApng } from './apngEncoder';
+
+export type AnimationFormat = 'gif' | 'apng';
+
+export interface AnimationExportOptions {
+  format: AnimationFormat;
+  /** 'original' derives each frame's delay from the source timestamps; 'fixed' uses delayMs for every frame. */
+  timing: 'original' | 'fixed';
+  delayMs: number;
+  /** How many times to play the animation; 0 loops forever. */
+  loopCount: number;
+  /** Palette size, from 2 to 256. APNG is written in full colour when quantize is off. */
+  colors: number;
+  quantize: boolean;
+  dither: boolean;
+  /** The longest side of the output, in pixels. */
+  maxDimension: number;
+  /** Output size budget in bytes; 0 for no limit. */
+  maxBytes: number;
+}
+
+export interface AnimationExportFrame {
+  src: string;
+  /** Time of the frame in the source video, in seconds. */
+  timestamp?: number;
+}
+
+export interface AnimationExportResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  /** False if the animation is still larger than the size budget at the smallest size tried. */
+  withinBudget: boolean;
+}
+
+/** How many times the output is shrunk to fit the size budget before giving up. */
+const MAX_BUDGET_ATTEMPTS = 4;
+const MIN_DIMENSION = 16;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load a frame for export.'));
+    image.src = src;
+  });
+};
+
+/** Lets the browser repaint progress between heavy steps. */
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const getFrameDelays = (frames: AnimationExportFrame[], options: AnimationExportOptions): number[] => {
+  const hasTimestamps = frames.every(frame => frame.timestamp !== undefined);
+  if (options.timing !== 'original' || !hasTimestamps) {
+    return frames.map(() => options.delayMs);
+  }
+  // Each frame lasts until the next one starts; the last frame uses the fixed delay.
+  return frames.map((frame, i) => i + 1 < frames.length
+    ? Math.max(10, ((frames[i + 1].timestamp ?? 0) - (frame.timestamp ?? 0)) * 1000)
+    : options.delayMs);
+};
+
+/** Draws every image at the given size, letterboxing any whose aspect ratio differs. */
+const renderFrames = (images: HTMLImageElement[], width: number, height: number): Uint8ClampedArray[] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not get canvas context.');
+  }
+
+  return images.map(image => {
+    const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+    const drawWidth = image.naturalWidth * scale;
+    const drawHeight = image.naturalHeight * scale;
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+    return context.getImageData(0, 0, width, height).data;
+  });
+};
+
+const encode = async (
+  pixels: Uint8ClampedArray[],
+  width: number,
+  height: number,
+  delays: number[],
+  options: AnimationExportOptions,
+  onProgress: (message: string) => void
+): Promise<Uint8Array> => {
+  if (options.format === 'apng' && !options.quantize) {
+    onProgress('Encoding APNG...');
+    return encodeApng(width, height, pixels.map((data, i) => ({ data, delayMs: delays[i] })), options.loopCount);
+  }
+
+  // GIF is always indexed colour.
+  onProgress('Building colour palette...');
+  await yieldToBrowser();
+  const palette = buildPalette(pixels, Math.min(256, Math.max(2, options.colors)));
+
+  const indexed: Uint8Array[] = [];
+  for (let i = 0; i < pixels.length; i++) {
+    onProgress(`Quantizing frame ${i + 1} of ${pixels.length}...`);
+    await yieldToBrowser();
+    indexed.push(applyPalette(pixels[i], width, height, palette, options.dither));
+  }
+
+  onProgress(`Encoding ${options.format.toUpperCase()}...`);
+  await yieldToBrowser();
+  return options.format === 'gif'
+    ? encodeGif(width, height, palette, indexed.map((indices, i) => ({ indices, delayMs: delays[i] })), options.loopCount)
+    : encodeApng(width, height, indexed.map((data, i) => ({ data, delayMs: delays[i] })), options.loopCount, palette);
+};
+
+/**
+ * Encodes frames as an animated GIF or APNG entirely in the browser.
+ * If a size budget is set, the output is re-encoded at smaller sizes until it fits.
+ * @param frames The frames to encode, in playback order; sorted by timestamp with original timing.
+ * @param options The format, timing, colour and size options.
+ * @param onProgress Callback with a description of the current step.
+ * @returns A promise that resolves to the encoded animation and its final size.
+ */
+export const exportAnimation = async (
+  frames: AnimationExportFrame[],
+  options: AnimationExportOptions,
+  onProgress: (message: string) => void
+): Promise<AnimationExportResult> => {
+  if (frames.length === 0) {
+    throw new Error('There are no frames to export.');
+  }
+
+  // With original timing, frames play in source order whatever order they were selected in.
+  const orderedFrames = options.timing === 'original'
+    ? [...frames].sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0))
+    : frames;
+  const images = await Promise.all(orderedFrames.map(frame => loadImage(frame.src)));
+  const delays = getFrameDelays(orderedFrames, options);
+  const sourceWidth = images[0].naturalWidth;
+  const sourceHeight = images[0].naturalHeight;
+  let scale = Math.min(1, options.maxDimension / Math.max(sourceWidth, sourceHeight));
+  const mimeType = options.format === 'gif' ? 'image/gif' : 'image/apng';
+
+  for (let attempt = 1; ; attempt++) {
+    const width = Math.max(MIN_DIMENSION, Math.round(sourceWidth * scale));
+    const height = Math.max(MIN_DIMENSION, Math.round(sourceHeight * scale));
+    const bytes = await encode(renderFrames(images, width, height), width, height, delays, options, onProgress);
+    const blob = new Blob([bytes], { type: mimeType });
+
+    const withinBudget = options.maxBytes <= 0 || blob.size <= options.maxBytes;
+    const canShrink = attempt < MAX_BUDGET_ATTEMPTS && Math.min(width, height) > MIN_DIMENSION;
+    if (withinBudget || !canShrink) {
+      return { blob, width, height, withinBudget };
+    }
+
+    // Output size scales roughly with pixel count; aim a little under the budget.
+    scale *= Math.sqrt(options.maxBytes / blob.size) * 0.9;
+    onProgress(`${Math.round(blob.size / 1024)} KB is over budget, retrying at a smaller size...`);
+  }
+};
@@ -0,0 +1,124 @@
+import { Palette } from './colorQuantizer';
+
+export interface ApngFrame {
+  /** RGBA pixels for truecolour output, or one palette index per pixel when a palette is given. */
+  data: Uint8Array | Uint8ClampedArray;
+  delayMs: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const COLOR_TYPE_INDEXED = 3;
+const COLOR_TYPE_RGBA = 6;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const uint16 = (value: number) => [(value >>> 8) & 0xff, value & 0xff];
+
+/** Builds a PNG chunk: length, type, data and a CRC over type and data. */
+const createChunk = (type: string, data: ArrayLike<number>): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  chunk.set(uint32(data.length), 0);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  chunk.set(uint32(crc32(chunk.subarray(4, 8 + data.length))), 8 + data.length);
+  return chunk;
+};
+
+/** Compresses data in the zlib format PNG expects, using the browser's built-in deflate. */
+const zlibCompress = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Prefixes every row with the 'None' filter type byte. */
+const toScanlines = (data: Uint8Array | Uint8ClampedArray, rowBytes: number, height: number): Uint8Array => {
+  const scanlines = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    scanlines.set(data.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+  }
+  return scanlines;
+};
+
+/**
+ * Encodes frames as an animated PNG.
+ * @param width The frame width.
+ * @param height The frame height.
+ * @param frames The frames' pixels and delays.
+ * @param loopCount How many times to play the animation; 0 loops forever.
+ * @param palette When given, frames hold palette indices and are written as indexed colour.
+ * @returns The APNG file contents.
+ */
+export const encodeApng = async (
+  width: number,
+  height: number,
+  frames: ApngFrame[],
+  loopCount: number,
+  palette?: Palette
+): Promise<Uint8Array> => {
+  const chunks: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+  const colorType = palette ? COLOR_TYPE_INDEXED : COLOR_TYPE_RGBA;
+  const rowBytes = palette ? width : width * 4;
+
+  chunks.push(createChunk('IHDR', [...uint32(width), ...uint32(height), 8, colorType, 0, 0, 0]));
+  if (palette) {
+    chunks.push(createChunk('PLTE', palette.colors));
+  }
+  chunks.push(createChunk('acTL', [...uint32(frames.length), ...uint32(loopCount)]));
+
+  // fcTL and fdAT chunks share one sequence counter.
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    chunks.push(createChunk('fcTL', [
+      ...uint32(sequence++),
+      ...uint32(width),
+      ...uint32(height),
+      ...uint32(0), // x offset
+      ...uint32(0), // y offset
+      ...uint16(Math.min(0xffff, Math.max(1, Math.round(frame.delayMs)))),
+      ...uint16(1000),
+      0, // dispose: none
+      0, // blend: source
+    ]));
+
+    const compressed = await zlibCompress(toScanlines(frame.data, rowBytes, height));
+    if (i === 0) {
+      // The first frame doubles as the still image shown by viewers without APNG support.
+      chunks.push(createChunk('IDAT', compressed));
+    } else {
+      const data = new Uint8Array(4 + compressed.length);
+      data.set(uint32(sequence++), 0);
+      data.set(compressed, 4);
+      chunks.push(createChunk('fdAT', data));
+    }
+  }
+
+  chunks.push(createChunk('IEND', []));
+
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
@@ -0,0 +1,177 @@
+/**
+ * Palette quantization for indexed-colour exports (GIF and palette APNG).
+ * Palettes are built with median cut over a sample of pixels from every frame,
+ * so all frames share one palette and colours stay stable between frames.
+ */
+
+/** At most this many pixels, spread over all frames, are sampled to build a palette. */
+const MAX_PALETTE_SAMPLES = 100_000;
+
+export interface Palette {
+  /** RGB triplets, one per colour. */
+  colors: Uint8Array;
+  size: number;
+}
+
+interface ColorBox {
+  start: number;
+  end: number;
+}
+
+const channelOf = (color: number, channel: number) => (color >> (16 - channel * 8)) & 0xff;
+
+const getLargestRange = (pixels: Uint32Array, box: ColorBox): { channel: number; range: number } => {
+  let best = { channel: 0, range: -1 };
+  for (let channel = 0; channel < 3; channel++) {
+    let min = 255;
+    let max = 0;
+    for (let i = box.start; i < box.end; i++) {
+      const value = channelOf(pixels[i], channel);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max - min > best.range) best = { channel, range: max - min };
+  }
+  return best;
+};
+
+/**
+ * Builds a palette of at most maxColors colours using median cut.
+ * @param frames The RGBA pixel data of every frame.
+ * @param maxColors The palette size limit, from 2 to 256.
+ * @returns The palette shared by all frames.
+ */
+export const buildPalette = (frames: Uint8ClampedArray[], maxColors: number): Palette => {
+  const totalPixels = frames.reduce((sum, data) => sum + data.length / 4, 0);
+  const step = Math.max(1, Math.floor(totalPixels / MAX_PALETTE_SAMPLES));
+
+  const samples: number[] = [];
+  for (const data of frames) {
+    for (let p = 0; p < data.length / 4; p += step) {
+      const i = p * 4;
+      samples.push((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+    }
+  }
+  const pixels = Uint32Array.from(samples);
+
+  // Repeatedly split the box with the widest colour range at its median.
+  const boxes: ColorBox[] = [{ start: 0, end: pixels.length }];
+  while (boxes.length < maxColors) {
+    let target = -1;
+    let targetRange = { channel: 0, range: 0 };
+    boxes.forEach((box, index) => {
+      if (box.end - box.start < 2) return;
+      const range = getLargestRange(pixels, box);
+      if (range.range > targetRange.range) {
+        target = index;
+        targetRange = range;
+      }
+    });
+    if (target === -1) break;
+
+    const box = boxes[target];
+    pixels.subarray(box.start, box.end).sort((a, b) => channelOf(a, targetRange.channel) - channelOf(b, targetRange.channel));
+    const median = Math.floor((box.start + box.end) / 2);
+    boxes.splice(target, 1, { start: box.start, end: median }, { start: median, end: box.end });
+  }
+
+  const colors = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    let r = 0, g = 0, b = 0;
+    for (let i = box.start; i < box.end; i++) {
+      r += channelOf(pixels[i], 0);
+      g += channelOf(pixels[i], 1);
+      b += channelOf(pixels[i], 2);
+    }
+    const count = Math.max(1, box.end - box.start);
+    colors[index * 3] = Math.round(r / count);
+    colors[index * 3 + 1] = Math.round(g / count);
+    colors[index * 3 + 2] = Math.round(b / count);
+  });
+  return { colors, size: boxes.length };
+};
+
+/**
+ * Creates a nearest-colour lookup for a palette. Results are cached per 15-bit colour,
+ * which keeps mapping fast without visibly changing the chosen colours.
+ */
+const createColorMatcher = (palette: Palette) => {
+  const cache = new Int16Array(1 << 15).fill(-1);
+
+  return (r: number, g: number, b: number): number => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const cached = cache[key];
+    if (cached !== -1) return cached;
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < palette.size; i++) {
+      const dr = palette.colors[i * 3] - r;
+      const dg = palette.colors[i * 3 + 1] - g;
+      const db = palette.colors[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+};
+
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : Math.round(value));
+
+/**
+ * Maps a frame's pixels to palette indices.
+ * @param data The RGBA pixel data.
+ * @param width The frame width.
+ * @param height The frame height.
+ * @param palette The palette to map to.
+ * @param dither Whether to spread quantization error with Floyd–Steinberg dithering.
+ * @returns One palette index per pixel.
+ */
+export const applyPalette = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: Palette,
+  dither: boolean
+): Uint8Array => {
+  const match = createColorMatcher(palette);
+  const indices = new Uint8Array(width * height);
+
+  if (!dither) {
+    for (let p = 0; p < indices.length; p++) {
+      indices[p] = match(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+    }
+    return indices;
+  }
+
+  // Error carried into the current and next rows, per RGB channel.
+  let current = new Float32Array((width + 2) * 3);
+  let next = new Float32Array((width + 2) * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const e = (x + 1) * 3;
+      const r = clampByte(data[p * 4] + current[e]);
+      const g = clampByte(data[p * 4 + 1] + current[e + 1]);
+      const b = clampByte(data[p * 4 + 2] + current[e + 2]);
+      const index = match(r, g, b);
+      indices[p] = index;
+
+      const errors = [r - palette.colors[index * 3], g - palette.colors[index * 3 + 1], b - palette.colors[index * 3 + 2]];
+      for (let c = 0; c < 3; c++) {
+        current[e + 3 + c] += (errors[c] * 7) / 16;
+        next[e - 3 + c] += (errors[c] * 3) / 16;
+        next[e + c] += (errors[c] * 5) / 16;
+        next[e + 3 + c] += errors[c] / 16;
+      }
+    }
+    [current, next] = [next, current];
+    next.fill(0);
+  }
+  return indices;
+};
@@ -0,0 +1,19 @@
+import { InlineImage } from "../types";
+
+/**
+ * Splits a base64 data URL into its payload and MIME type, for sending as inline data.
+ * @param src The data URL.
+ * @returns The base64 data and MIME type; JPEG is assumed if the URL doesn't name one.
+ */
+export const parseDataUrl = (src: string): InlineImage => {
+  const [header, data = ''] = src.split(',');
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] ?? 'image/jpeg';
+  return { data, mimeType };
+};
+
+/**
+ * Picks a file extension for an image data URL.
+ * @param src The data URL.
+ * @returns 'png' for PNG images, otherwise 'jpg'.
+ */
+export const getImageExtension = (src: string): string => (parseDataUrl(src).mimeType === 'image/png' ? 'png' : 'jpg');
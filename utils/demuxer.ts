@@ -0,0 +1,98 @@
+import { demuxMp4 } from './mp4Demuxer';
+import { demuxWebm } from './webmDemuxer';
+
+export interface EncodedSample {
+  /** Presentation timestamp in microseconds. */
+  timestamp: number;
+  /** Duration in microseconds, when the container records it. */
+  duration?: number;
+  isKey: boolean;
+  data: Uint8Array;
+}
+
+export interface DemuxedVideoTrack {
+  /** WebCodecs codec string, e.g. 'avc1.64001f' or 'vp09.00.10.08'. */
+  codec: string;
+  codedWidth: number;
+  codedHeight: number;
+  /** Codec configuration record (avcC, hvcC, av1C) passed to VideoDecoder.configure. */
+  description?: Uint8Array;
+  /** Samples in decode order. */
+  samples: EncodedSample[];
+}
+
+const toHex = (value: number, digits = 2): string => value.toString(16).padStart(digits, '0');
+
+/**
+ * Builds the WebCodecs codec string for H.264 from an avcC record.
+ * @param sampleEntry The sample entry type ('avc1' or 'avc3').
+ * @param avcC The avcC configuration record.
+ */
+export const getAvcCodecString = (sampleEntry: string, avcC: Uint8Array): string =>
+  `${sampleEntry}.${toHex(avcC[1])}${toHex(avcC[2])}${toHex(avcC[3])}`;
+
+/**
+ * Builds the WebCodecs codec string for H.265 from an hvcC record.
+ * @param sampleEntry The sample entry type ('hvc1' or 'hev1').
+ * @param hvcC The hvcC configuration record.
+ */
+export const getHevcCodecString = (sampleEntry: string, hvcC: Uint8Array): string => {
+  const profileSpace = ['', 'A', 'B', 'C'][hvcC[1] >> 6];
+  const tier = (hvcC[1] & 0x20) ? 'H' : 'L';
+  const profile = hvcC[1] & 0x1f;
+
+  // The compatibility flags are written in reverse bit order.
+  const compatibility = ((hvcC[2] << 24) | (hvcC[3] << 16) | (hvcC[4] << 8) | hvcC[5]) >>> 0;
+  let reversed = 0;
+  for (let i = 0; i < 32; i++) {
+    reversed = (reversed << 1) | ((compatibility >>> i) & 1);
+  }
+  reversed >>>= 0;
+
+  const constraints = Array.from(hvcC.subarray(6, 12));
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) {
+    constraints.pop();
+  }
+
+  return [
+    sampleEntry,
+    `${profileSpace}${profile}`,
+    reversed.toString(16),
+    `${tier}${hvcC[12]}`,
+    ...constraints.map(byte => toHex(byte)),
+  ].join('.');
+};
+
+/**
+ * Builds the WebCodecs codec string for AV1 from an av1C record.
+ * @param av1C The av1C configuration record.
+ */
+export const getAv1CodecString = (av1C: Uint8Array): string => {
+  const profile = av1C[1] >> 5;
+  const level = av1C[1] & 0x1f;
+  const tier = (av1C[2] & 0x80) ? 'H' : 'M';
+  const highBitDepth = (av1C[2] & 0x40) !== 0;
+  const twelveBit = (av1C[2] & 0x20) !== 0;
+  const bitDepth = twelveBit ? 12 : highBitDepth ? 10 : 8;
+  return `av01.${profile}.${String(level).padStart(2, '0')}${tier}.${String(bitDepth).padStart(2, '0')}`;
+};
+
+/**
+ * Splits a video file into encoded samples that can be fed to a VideoDecoder.
+ * @param buffer The complete file contents.
+ * @returns The first video track of the file.
+ * @throws An error if the container or codec cannot be demuxed.
+ */
+export const demuxVideo = (buffer: ArrayBuffer): DemuxedVideoTrack => {
+  const bytes = new Uint8Array(buffer);
+
+  // Matroska/WebM files start with the EBML magic number.
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    return demuxWebm(bytes);
+  }
+  // ISO BMFF files start with an 'ftyp' box.
+  if (String.fromCharCode(...bytes.subarray(4, 8)) === 'ftyp') {
+    return demuxMp4(bytes);
+  }
+  throw new Error('Unrecognized video container.');
+};
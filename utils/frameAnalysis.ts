@@ -0,0 +1,218 @@
+import { ExtractionMode } from '../types';
+import { computeDHash } from './perceptualHash';
+
+/**
+ * Pixel analysis used to pick distinct, sharp frames during extraction.
+ * Runs inside the frame-analysis worker, or on the main thread where workers
+ * with OffscreenCanvas are unavailable. All functions take RGBA pixel data.
+ */
+
+/** Frames are analysed on a copy scaled so that its longest side is at most this many pixels. */
+export const ANALYSIS_MAX_DIMENSION = 480;
+
+/** Quantization levels per colour channel for scene-cut histograms. */
+const HISTOGRAM_LEVELS = 8;
+
+export interface FrameAnalysisOptions {
+  mode: ExtractionMode;
+  blurThreshold: number;
+  similarityThreshold: number;
+  /** Histogram distance, in percent, between consecutive frames that counts as a cut. */
+  sceneCutThreshold: number;
+}
+
+export interface FrameAnalysisResult {
+  /** Variance of the Laplacian; low values indicate a blurry frame. */
+  blurVariance: number;
+  /** Mean absolute difference per channel from the last accepted frame, or null for the first frame. */
+  difference: number | null;
+  /** Colour histogram distance (0-1) from the previous frame in scene mode, or null otherwise. */
+  histogramDistance: number | null;
+  /** Perceptual hash of the frame, used to drop look-alikes of any earlier frame. */
+  hash: string;
+  /**
+   * In similarity mode, whether the frame should be kept. In scene mode, whether it is
+   * the sharpest frame of the current shot so far and should replace the shot's candidate.
+   */
+  accepted: boolean;
+  /**
+   * Whether this frame starts a new shot, so the previous shot's candidate is final.
+   * In similarity mode every accepted frame is its own shot.
+   */
+  sceneCut: boolean;
+}
+
+export type FrameAnalysisRequest =
+  | { type: 'analyze'; id: number; bitmap: ImageBitmap; options: FrameAnalysisOptions }
+  | { type: 'reset' };
+
+export type FrameAnalysisResponse =
+  | { id: number; result: FrameAnalysisResult }
+  | { id: number; error: string };
+
+/**
+ * Computes the dimensions of the downscaled analysis copy of a frame.
+ * @param width The source width.
+ * @param height The source height.
+ * @returns The analysis width and height, never larger than the source.
+ */
+export const getAnalysisSize = (width: number, height: number): { width: number; height: number } => {
+  const scale = Math.min(1, ANALYSIS_MAX_DIMENSION / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+/**
+ * Converts RGBA pixels to luma values.
+ * @param data The RGBA pixel data.
+ * @returns One grayscale value per pixel.
+ */
+export const toGrayscale = (data: Uint8ClampedArray): Uint8ClampedArray => {
+  const gray = new Uint8ClampedArray(data.length / 4);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return gray;
+};
+
+/**
+ * Calculates the variance of the Laplacian of a grayscale image in a single pass,
+ * accumulating the sum and sum of squares instead of storing every value.
+ * @param gray The grayscale pixels.
+ * @param width The image width.
+ * @param height The image height.
+ * @returns The Laplacian variance, or 0 for images too small to filter.
+ */
+export const computeLaplacianVariance = (gray: Uint8ClampedArray, width: number, height: number): number => {
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+
+  // Apply a 3x3 Laplacian kernel to find edges
+  for (let y = 1; y < height - 1; y++) {
+    const row = y * width;
+    for (let x = 1; x < width - 1; x++) {
+      const i = row + x;
+      const laplacian = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+};
+
+/**
+ * Calculates the mean absolute difference per colour channel between two frames of equal size.
+ * @param current The RGBA pixels of the current frame.
+ * @param previous The RGBA pixels of the frame to compare against.
+ * @returns The average difference, from 0 (identical) to 255.
+ */
+export const computeMeanAbsoluteDifference = (current: Uint8ClampedArray, previous: Uint8ClampedArray): number => {
+  let diff = 0;
+  for (let i = 0; i < current.length; i += 4) {
+    diff += Math.abs(current[i] - previous[i]);         // Red channel
+    diff += Math.abs(current[i + 1] - previous[i + 1]); // Green channel
+    diff += Math.abs(current[i + 2] - previous[i + 2]); // Blue channel
+  }
+  return diff / ((current.length / 4) * 3);
+};
+
+/**
+ * Builds a normalized joint RGB histogram of a frame.
+ * @param data The RGBA pixel data.
+ * @returns The fraction of pixels in each colour bin.
+ */
+export const computeColorHistogram = (data: Uint8ClampedArray): Float32Array => {
+  const shift = 8 - Math.log2(HISTOGRAM_LEVELS);
+  const histogram = new Float32Array(HISTOGRAM_LEVELS ** 3);
+  const pixelCount = data.length / 4;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const bin = ((data[i] >> shift) * HISTOGRAM_LEVELS + (data[i + 1] >> shift)) * HISTOGRAM_LEVELS + (data[i + 2] >> shift);
+    histogram[bin]++;
+  }
+  for (let i = 0; i < histogram.length; i++) {
+    histogram[i] /= pixelCount;
+  }
+  return histogram;
+};
+
+/**
+ * Calculates the distance between two normalized histograms as half their L1 distance.
+ * @returns A value from 0 (same colour distribution) to 1 (no colours in common).
+ */
+export const computeHistogramDistance = (a: Float32Array, b: Float32Array): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += Math.abs(a[i] - b[i]);
+  }
+  return distance / 2;
+};
+
+/**
+ * Creates a stateful evaluator for a sequence of frames.
+ * In similarity mode it accepts frames which are neither blurry nor too similar to the
+ * last frame it accepted. In scene mode it detects shot boundaries from the histogram
+ * distance between consecutive frames and tracks the sharpest frame of each shot.
+ * @returns The evaluator and a function to forget all previous frames.
+ */
+export const createFrameEvaluator = () => {
+  let lastAccepted: Uint8ClampedArray | null = null;
+  let previousHistogram: Float32Array | null = null;
+  let sharpestInShot = -1;
+
+  const evaluateSimilarity = (pixels: Uint8ClampedArray, blurVariance: number, options: FrameAnalysisOptions) => {
+    const difference = lastAccepted && lastAccepted.length === pixels.length
+      ? computeMeanAbsoluteDifference(pixels, lastAccepted)
+      : null; // The first frame is always unique.
+
+    const isBlurry = blurVariance < options.blurThreshold;
+    const isSimilar = difference !== null && difference < options.similarityThreshold;
+    const accepted = !isBlurry && !isSimilar;
+
+    if (accepted) {
+      lastAccepted = pixels;
+    }
+    return { blurVariance, difference, histogramDistance: null, accepted, sceneCut: accepted };
+  };
+
+  const evaluateScene = (pixels: Uint8ClampedArray, blurVariance: number, options: FrameAnalysisOptions) => {
+    const histogram = computeColorHistogram(pixels);
+    const histogramDistance = previousHistogram ? computeHistogramDistance(histogram, previousHistogram) : null;
+    previousHistogram = histogram;
+
+    // The first frame always starts a shot.
+    const sceneCut = histogramDistance === null || histogramDistance * 100 >= options.sceneCutThreshold;
+    if (sceneCut) {
+      sharpestInShot = -1;
+    }
+    const accepted = blurVariance > sharpestInShot;
+    if (accepted) {
+      sharpestInShot = blurVariance;
+    }
+    return { blurVariance, difference: null, histogramDistance, accepted, sceneCut };
+  };
+
+  const evaluate = (pixels: Uint8ClampedArray, width: number, height: number, options: FrameAnalysisOptions): FrameAnalysisResult => {
+    const blurVariance = computeLaplacianVariance(toGrayscale(pixels), width, height);
+    const result = options.mode === 'scenes'
+      ? evaluateScene(pixels, blurVariance, options)
+      : evaluateSimilarity(pixels, blurVariance, options);
+    return { ...result, hash: computeDHash(pixels, width, height) };
+  };
+
+  const reset = () => {
+    lastAccepted = null;
+    previousHistogram = null;
+    sharpestInShot = -1;
+  };
+
+  return { evaluate, reset };
+};
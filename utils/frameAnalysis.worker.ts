@@ -0,0 +1,38 @@
+import { createFrameEvaluator, FrameAnalysisRequest, FrameAnalysisResponse } from './frameAnalysis';
+
+let canvas: OffscreenCanvas | null = null;
+let context: OffscreenCanvasRenderingContext2D | null = null;
+const evaluator = createFrameEvaluator();
+
+const readPixels = (bitmap: ImageBitmap): Uint8ClampedArray => {
+  if (!canvas || canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+    canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    context = canvas.getContext('2d', { willReadFrequently: true });
+  }
+  if (!context) {
+    throw new Error('Could not get offscreen canvas context.');
+  }
+  context.drawImage(bitmap, 0, 0);
+  return context.getImageData(0, 0, bitmap.width, bitmap.height).data;
+};
+
+self.onmessage = (event: MessageEvent<FrameAnalysisRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'reset') {
+    evaluator.reset();
+    return;
+  }
+
+  let response: FrameAnalysisResponse;
+  try {
+    const { width, height } = request.bitmap;
+    const pixels = readPixels(request.bitmap);
+    response = { id: request.id, result: evaluator.evaluate(pixels, width, height, request.options) };
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    request.bitmap.close();
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,28 @@
+import { FrameMetadata } from '../types';
+
+/**
+ * Formats a position in the video as minutes, seconds and hundredths.
+ * @param timeInSeconds The time to format.
+ * @returns A string like "01:23.45".
+ */
+export const formatTimestamp = (timeInSeconds: number): string => {
+  const minutes = Math.floor(timeInSeconds / 60);
+  const seconds = timeInSeconds - minutes * 60;
+  return `${String(minutes).padStart(2, '0')}:${seconds.toFixed(2).padStart(5, '0')}`;
+};
+
+/**
+ * Lists the known metadata of a frame as label/value pairs for display.
+ * @param metadata The frame's metadata; unknown fields are left out.
+ */
+export const describeFrameMetadata = (metadata: FrameMetadata): Array<{ label: string; value: string }> => {
+  const rows: Array<{ label: string; value: string }> = [];
+  if (metadata.timestamp !== undefined) rows.push({ label: 'Timestamp', value: formatTimestamp(metadata.timestamp) });
+  if (metadata.frameNumber !== undefined) rows.push({ label: 'Frame number', value: String(metadata.frameNumber) });
+  if (metadata.width !== undefined && metadata.height !== undefined) {
+    rows.push({ label: 'Resolution', value: `${metadata.width} × ${metadata.height}` });
+  }
+  if (metadata.blurScore !== undefined) rows.push({ label: 'Sharpness', value: metadata.blurScore.toFixed(1) });
+  if (metadata.similarityScore !== undefined) rows.push({ label: 'Difference', value: metadata.similarityScore.toFixed(1) });
+  return rows;
+};
@@ -0,0 +1,177 @@
+import { FrameVersion, RegeneratedFrame, VersionHistory } from "../types";
+
+/**
+ * Versions kept per frame. Each holds a full image, so the oldest are dropped
+ * beyond this to keep projects within browser storage.
+ */
+export const MAX_VERSIONS = 20;
+
+/**
+ * Returns a frame's versions. Frames saved before version history existed are
+ * treated as having one regenerated version per saved variation.
+ * @param frame The regenerated frame.
+ * @returns The versions, in creation order.
+ */
+export const getVersions = (frame: RegeneratedFrame | null | undefined): FrameVersion[] => {
+  if (!frame) return [];
+  if (frame.versions) return frame.versions;
+  return (frame.candidates ?? [{ src: frame.src, prompt: frame.prompt }]).map((candidate, index) => ({
+    ...candidate,
+    id: `legacy-${index}`,
+    parentId: null,
+    kind: 'regenerate' as const,
+  }));
+};
+
+const getCurrentVersionId = (frame: RegeneratedFrame, versions: FrameVersion[]): string | undefined =>
+  frame.currentVersionId ?? versions.find(version => version.src === frame.src)?.id ?? versions[versions.length - 1]?.id;
+
+/**
+ * Creates a version with a fresh id and the current time.
+ * @param fields Everything but the id and creation time.
+ * @returns The new version.
+ */
+export const createVersion = (fields: Omit<FrameVersion, 'id' | 'createdAt'>): FrameVersion => ({
+  ...fields,
+  id: crypto.randomUUID(),
+  createdAt: Date.now(),
+});
+
+/** Makes a version current, remembering the previous one for undo. */
+const moveTo = (frame: RegeneratedFrame, versions: FrameVersion[], versionId: string, undoStack: string[], redoStack: string[]): RegeneratedFrame => {
+  const version = versions.find(v => v.id === versionId);
+  if (!version) return frame;
+  const { candidates, ...rest } = frame;
+  return { ...rest, src: version.src, prompt: version.prompt, versions, currentVersionId: versionId, undoStack, redoStack };
+};
+
+/**
+ * Drops the oldest versions beyond MAX_VERSIONS, along with undo and redo steps that led to them.
+ * The current version is always kept.
+ */
+const pruneVersions = (frame: RegeneratedFrame): RegeneratedFrame => {
+  const versions = getVersions(frame);
+  const excess = versions.length - MAX_VERSIONS;
+  if (excess <= 0) return frame;
+  const removable = versions.filter(version => version.id !== frame.currentVersionId).slice(0, excess);
+  const removed = new Set(removable.map(version => version.id));
+  const isKept = (id: string) => !removed.has(id);
+  return {
+    ...frame,
+    versions: versions.filter(version => isKept(version.id)),
+    undoStack: (frame.undoStack ?? []).filter(isKept),
+    redoStack: (frame.redoStack ?? []).filter(isKept),
+  };
+};
+
+/**
+ * Adds new versions to a frame and makes the first of them current.
+ * The oldest versions are dropped once the frame has more than MAX_VERSIONS.
+ * @param frame The frame, or null if it has never been regenerated.
+ * @param newVersions The versions to add.
+ * @returns The updated frame.
+ */
+export const addVersions = (frame: RegeneratedFrame | null | undefined, newVersions: FrameVersion[]): RegeneratedFrame => {
+  const versions = [...getVersions(frame), ...newVersions];
+  if (!frame) {
+    return pruneVersions({ src: newVersions[0].src, prompt: newVersions[0].prompt, versions, currentVersionId: newVersions[0].id, undoStack: [], redoStack: [] });
+  }
+  return pruneVersions(selectVersion({ ...frame, versions }, newVersions[0].id));
+};
+
+/**
+ * Makes any earlier version current again. Redo history is cleared, as after any new change.
+ * @param frame The frame.
+ * @param versionId The version to revert to.
+ * @returns The updated frame.
+ */
+export const selectVersion = (frame: RegeneratedFrame, versionId: string): RegeneratedFrame => {
+  const versions = getVersions(frame);
+  const currentId = getCurrentVersionId(frame, versions);
+  if (versionId === currentId) return frame;
+  const undoStack = currentId ? [...(frame.undoStack ?? []), currentId] : frame.undoStack ?? [];
+  return moveTo(frame, versions, versionId, undoStack, []);
+};
+
+/**
+ * Returns to the version that was current before the last change.
+ * @param frame The frame.
+ * @returns The updated frame, or the same frame if there is nothing to undo.
+ */
+export const undoVersion = (frame: RegeneratedFrame): RegeneratedFrame => {
+  const versions = getVersions(frame);
+  const undoStack = frame.undoStack ?? [];
+  const currentId = getCurrentVersionId(frame, versions);
+  if (undoStack.length === 0 || !currentId) return frame;
+  return moveTo(frame, versions, undoStack[undoStack.length - 1], undoStack.slice(0, -1), [...(frame.redoStack ?? []), currentId]);
+};
+
+/**
+ * Reapplies the change most recently undone.
+ * @param frame The frame.
+ * @returns The updated frame, or the same frame if there is nothing to redo.
+ */
+export const redoVersion = (frame: RegeneratedFrame): RegeneratedFrame => {
+  const versions = getVersions(frame);
+  const redoStack = frame.redoStack ?? [];
+  const currentId = getCurrentVersionId(frame, versions);
+  if (redoStack.length === 0 || !currentId) return frame;
+  return moveTo(frame, versions, redoStack[redoStack.length - 1], [...(frame.undoStack ?? []), currentId], redoStack.slice(0, -1));
+};
+
+/**
+ * Summarizes a frame's history for display.
+ * @param frame The regenerated frame.
+ * @returns The versions, the current one, and whether undo and redo are possible.
+ */
+export const getVersionHistory = (frame: RegeneratedFrame): VersionHistory => {
+  const versions = getVersions(frame);
+  return {
+    versions,
+    currentVersionId: getCurrentVersionId(frame, versions) ?? '',
+    canUndo: (frame.undoStack?.length ?? 0) > 0,
+    canRedo: (frame.redoStack?.length ?? 0) > 0,
+  };
+};
+
+/**
+ * Orders versions depth-first so that each edit is listed under the version it came from.
+ * @param versions The versions, in creation order.
+ * @returns Each version with its depth in the tree.
+ */
+export const flattenVersionTree = (versions: FrameVersion[]): Array<{ version: FrameVersion; depth: number }> => {
+  const ids = new Set(versions.map(version => version.id));
+  const children = new Map<string | null, FrameVersion[]>();
+  for (const version of versions) {
+    // A missing parent shouldn't hide a version, so treat it as a root.
+    const parentId = version.parentId && ids.has(version.parentId) ? version.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), version]);
+  }
+
+  const result: Array<{ version: FrameVersion; depth: number }> = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const version of children.get(parentId) ?? []) {
+      result.push({ version, depth });
+      visit(version.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return result;
+};
+
+/**
+ * Finds the regeneration a version descends from.
+ * @param versions All versions of the frame.
+ * @param versionId The version to start from.
+ * @returns The id of the root version, or undefined if the version doesn't exist.
+ */
+export const getRootVersionId = (versions: FrameVersion[], versionId: string): string | undefined => {
+  const byId = new Map(versions.map(version => [version.id, version]));
+  let version = byId.get(versionId);
+  const seen = new Set<string>();
+  while (version?.parentId && byId.has(version.parentId) && !seen.has(version.id)) {
+    seen.add(version.id);
+    version = byId.get(version.parentId);
+  }
+  return version?.id;
+};
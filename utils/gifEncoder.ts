@@ -0,0 +1,168 @@
+import { Palette } from './colorQuantizer';
+
+export interface GifFrame {
+  /** One palette index per pixel. */
+  indices: Uint8Array;
+  delayMs: number;
+}
+
+const MAX_LZW_CODE = 4095;
+
+/** Collects bytes into a growable buffer. */
+const createByteWriter = () => {
+  let buffer = new Uint8Array(1 << 16);
+  let length = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra <= buffer.length) return;
+    let size = buffer.length * 2;
+    while (size < length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(buffer.subarray(0, length));
+    buffer = grown;
+  };
+
+  return {
+    byte: (value: number) => {
+      ensure(1);
+      buffer[length++] = value;
+    },
+    uint16: (value: number) => {
+      ensure(2);
+      buffer[length++] = value & 0xff;
+      buffer[length++] = (value >> 8) & 0xff;
+    },
+    bytes: (values: ArrayLike<number>) => {
+      ensure(values.length);
+      buffer.set(values, length);
+      length += values.length;
+    },
+    string: (value: string) => {
+      ensure(value.length);
+      for (let i = 0; i < value.length; i++) buffer[length++] = value.charCodeAt(i);
+    },
+    toBytes: () => buffer.slice(0, length),
+  };
+};
+
+/**
+ * Compresses palette indices with GIF's variable-width LZW and splits the
+ * result into data sub-blocks of at most 255 bytes.
+ */
+const writeLzwData = (writer: ReturnType<typeof createByteWriter>, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emit = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        writer.byte(255);
+        writer.bytes(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  let dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+
+  emit(clearCode, codeSize);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const suffix = indices[i];
+    const key = (prefix << 8) | suffix;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix, codeSize);
+    if (nextCode <= MAX_LZW_CODE) {
+      dictionary.set(key, nextCode);
+      // The decoder widens its codes one step later than we add entries.
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+      nextCode++;
+    } else {
+      // The table is full; start over.
+      emit(clearCode, codeSize);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = suffix;
+  }
+  emit(prefix, codeSize);
+  emit(endCode, codeSize);
+  if (bitCount > 0) emit(0, 8 - bitCount);
+
+  if (block.length > 0) {
+    writer.byte(block.length);
+    writer.bytes(block);
+  }
+  writer.byte(0); // Block terminator
+};
+
+/**
+ * Encodes frames that share one palette as an animated GIF.
+ * @param width The frame width.
+ * @param height The frame height.
+ * @param palette The global colour table.
+ * @param frames The frames' palette indices and delays.
+ * @param loopCount How many times to play the animation; 0 loops forever.
+ * @returns The GIF file contents.
+ */
+export const encodeGif = (width: number, height: number, palette: Palette, frames: GifFrame[], loopCount: number): Uint8Array => {
+  const writer = createByteWriter();
+  const tableBits = Math.max(1, Math.ceil(Math.log2(palette.size)));
+  const tableSize = 1 << tableBits;
+
+  writer.string('GIF89a');
+  writer.uint16(width);
+  writer.uint16(height);
+  writer.byte(0x80 | 0x70 | (tableBits - 1)); // Global colour table, 8-bit colour resolution
+  writer.byte(0); // Background colour index
+  writer.byte(0); // Pixel aspect ratio
+  writer.bytes(palette.colors);
+  writer.bytes(new Uint8Array((tableSize - palette.size) * 3));
+
+  // Netscape looping extension; without it the animation plays once.
+  if (loopCount !== 1) {
+    writer.bytes([0x21, 0xff, 0x0b]);
+    writer.string('NETSCAPE2.0');
+    writer.bytes([0x03, 0x01]);
+    writer.uint16(loopCount === 0 ? 0 : loopCount - 1);
+    writer.byte(0);
+  }
+
+  for (const frame of frames) {
+    // Graphic control extension: leave the frame in place, delay in hundredths of a second.
+    writer.bytes([0x21, 0xf9, 0x04, 0x04]);
+    writer.uint16(Math.max(2, Math.round(frame.delayMs / 10)));
+    writer.bytes([0x00, 0x00]);
+
+    // Image descriptor covering the whole canvas, using the global colour table.
+    writer.byte(0x2c);
+    writer.uint16(0);
+    writer.uint16(0);
+    writer.uint16(width);
+    writer.uint16(height);
+    writer.byte(0);
+
+    const minCodeSize = Math.max(2, tableBits);
+    writer.byte(minCodeSize);
+    writeLzwData(writer, frame.indices, minCodeSize);
+  }
+
+  writer.byte(0x3b); // Trailer
+  return writer.toBytes();
+};
@@ -0,0 +1,226 @@
+import { QueueJob } from "../types";
+
+export interface QueueSnapshot<T> {
+  jobs: QueueJob<T>[];
+  isPaused: boolean;
+}
+
+interface JobQueueOptions<T> {
+  /** Performs a single job. Results should be discarded if the signal has been aborted. */
+  runJob: (payload: T, signal: AbortSignal) => Promise<void>;
+  /** Distinguishes safety-blocked results from ordinary failures. */
+  isBlockedError?: (error: unknown) => boolean;
+  /** Maximum number of jobs running at the same time. Defaults to 1. */
+  concurrency?: number;
+  /**
+   * Finds the queued job a job depends on, if any. A pending job waits while its dependency is
+   * unfinished, and is marked blocked instead of running if the dependency fails, is blocked or is cancelled.
+   */
+  getDependency?: (payload: T, jobs: QueueJob<T>[]) => QueueJob<T> | undefined;
+  /** Names a job in the message shown when a job it depends on didn't finish. */
+  describeJob?: (payload: T) => string;
+}
+
+export interface JobQueue<T> {
+  enqueue: (payloads: T[]) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  retry: (jobId: string) => void;
+  retryFailed: () => void;
+  clearFinished: () => void;
+  setConcurrency: (limit: number) => void;
+  getSnapshot: () => QueueSnapshot<T>;
+  subscribe: (listener: (snapshot: QueueSnapshot<T>) => void) => () => void;
+}
+
+const RETRYABLE_STATUSES = new Set(['failed', 'blocked', 'cancelled']);
+const UNFINISHED_STATUSES = new Set(['pending', 'running']);
+
+/**
+ * Creates a queue that runs jobs with bounded concurrency and tracks the status of each one,
+ * so a batch can be paused, resumed or cancelled and individual failures retried
+ * without redoing the jobs that already succeeded.
+ * @param options The job runner and queue behaviour.
+ * @returns The queue controller.
+ */
+export const createJobQueue = <T>(options: JobQueueOptions<T>): JobQueue<T> => {
+  const { runJob, isBlockedError, getDependency, describeJob = () => 'the job it depends on' } = options;
+
+  let jobs: QueueJob<T>[] = [];
+  let isPaused = false;
+  let concurrency = Math.max(1, options.concurrency ?? 1);
+  let nextId = 1;
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Set<(snapshot: QueueSnapshot<T>) => void>();
+
+  const getSnapshot = (): QueueSnapshot<T> => ({ jobs, isPaused });
+
+  const notify = () => {
+    const snapshot = getSnapshot();
+    listeners.forEach(listener => listener(snapshot));
+  };
+
+  const updateJob = (id: string, changes: Partial<QueueJob<T>>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+    notify();
+  };
+
+  const runJobWithStatus = async (job: QueueJob<T>) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    updateJob(job.id, { status: 'running', attempts: job.attempts + 1, error: undefined });
+
+    try {
+      await runJob(job.payload, controller.signal);
+      if (!controller.signal.aborted) {
+        updateJob(job.id, { status: 'done' });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        updateJob(job.id, { status: isBlockedError?.(error) ? 'blocked' : 'failed', error: errorMessage });
+      }
+    } finally {
+      controllers.delete(job.id);
+    }
+  };
+
+  /**
+   * Blocks pending jobs whose dependency ended without succeeding. Repeats until nothing changes,
+   * since blocking one job can block the jobs that depend on it.
+   */
+  const blockOrphanedJobs = () => {
+    if (!getDependency) return;
+    for (let changed = true; changed;) {
+      changed = false;
+      for (const job of jobs) {
+        if (job.status !== 'pending') continue;
+        const dependency = getDependency(job.payload, jobs);
+        if (dependency && RETRYABLE_STATUSES.has(dependency.status)) {
+          updateJob(job.id, {
+            status: 'blocked',
+            blockedBy: dependency.id,
+            error: `Not started because ${describeJob(dependency.payload)} was ${dependency.status}. Retrying it retries this job too.`,
+          });
+          changed = true;
+        }
+      }
+    }
+  };
+
+  /** Returns the ids of the jobs blocked, directly or through others, by the given job. */
+  const getBlockedDependents = (jobId: string): string[] => {
+    const dependents = jobs.filter(job => job.status === 'blocked' && job.blockedBy === jobId).map(job => job.id);
+    return [...dependents, ...dependents.flatMap(getBlockedDependents)];
+  };
+
+  const canStart = (job: QueueJob<T>) => {
+    const dependency = getDependency?.(job.payload, jobs);
+    return !dependency || !UNFINISHED_STATUSES.has(dependency.status);
+  };
+
+  // Starts pending jobs until the concurrency limit is reached; each finished job starts the next.
+  const process = () => {
+    blockOrphanedJobs();
+    while (!isPaused && controllers.size < concurrency) {
+      const job = jobs.find(j => j.status === 'pending' && canStart(j));
+      if (!job) break;
+      runJobWithStatus(job).then(process);
+    }
+  };
+
+  return {
+    enqueue: (payloads) => {
+      const newJobs = payloads.map(payload => ({
+        id: String(nextId++),
+        payload,
+        status: 'pending' as const,
+        attempts: 0,
+      }));
+      jobs = [...jobs, ...newJobs];
+      notify();
+      process();
+    },
+    pause: () => {
+      isPaused = true;
+      notify();
+    },
+    resume: () => {
+      isPaused = false;
+      notify();
+      process();
+    },
+    cancel: () => {
+      isPaused = false;
+      controllers.forEach(controller => controller.abort());
+      jobs = jobs.map(job =>
+        job.status === 'pending' || job.status === 'running' ? { ...job, status: 'cancelled' } : job
+      );
+      notify();
+    },
+    retry: (jobId) => {
+      const job = jobs.find(j => j.id === jobId);
+      if (!job || !RETRYABLE_STATUSES.has(job.status)) return;
+      const retried = new Set([jobId, ...getBlockedDependents(jobId)]);
+      jobs = jobs.map(j => (retried.has(j.id) ? { ...j, status: 'pending', error: undefined, blockedBy: undefined } : j));
+      notify();
+      process();
+    },
+    retryFailed: () => {
+      jobs = jobs.map(job =>
+        job.status === 'failed' || job.status === 'blocked' ? { ...job, status: 'pending', error: undefined, blockedBy: undefined } : job
+      );
+      notify();
+      process();
+    },
+    clearFinished: () => {
+      jobs = jobs.filter(job => job.status === 'pending' || job.status === 'running');
+      notify();
+    },
+    setConcurrency: (limit) => {
+      concurrency = Math.max(1, Math.round(limit));
+      process();
+    },
+    getSnapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+/**
+ * Maps over items with at most `limit` calls in flight, preserving result order.
+ * Stops starting new items after the first failure and rethrows it once in-flight calls settle.
+ * @param items The inputs to process.
+ * @param limit The maximum number of concurrent calls.
+ * @param worker The async function applied to each item.
+ * @returns A promise resolving to the results, in input order.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failure: { error: unknown } | null = null;
+
+  const runWorker = async () => {
+    while (!failure && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runWorker));
+  if (failure) throw failure.error;
+  return results;
+};
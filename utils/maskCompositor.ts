@@ -0,0 +1,104 @@
+/**
+ * Helpers for masked edits: turning a painted mask into the black-and-white image
+ * sent to the model, and compositing the model's result back so that only the
+ * masked pixels change.
+ */
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load an image for compositing.'));
+    image.src = src;
+  });
+};
+
+const getPixels = (context: CanvasRenderingContext2D, image: CanvasImageSource, width: number, height: number): Uint8ClampedArray => {
+  context.clearRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height).data;
+};
+
+/**
+ * Checks whether anything has been painted on a mask canvas.
+ * @param canvas The canvas the mask was painted on; any non-transparent pixel is masked.
+ * @returns True if at least one pixel is masked.
+ */
+export const hasMaskedPixels = (canvas: HTMLCanvasElement): boolean => {
+  const context = canvas.getContext('2d');
+  if (!context) return false;
+  const data = context.getImageData(0, 0, canvas.width, canvas.height).data;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+/**
+ * Converts a painted mask into a black-and-white PNG, white where the image may change.
+ * @param canvas The canvas the mask was painted on.
+ * @returns The mask as a PNG data URL.
+ */
+export const createMaskImage = (canvas: HTMLCanvasElement): string => {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not get canvas context.');
+  }
+  const painted = context.getImageData(0, 0, canvas.width, canvas.height);
+  const output = new ImageData(canvas.width, canvas.height);
+  for (let i = 0; i < painted.data.length; i += 4) {
+    const value = painted.data[i + 3] > 0 ? 255 : 0;
+    output.data[i] = value;
+    output.data[i + 1] = value;
+    output.data[i + 2] = value;
+    output.data[i + 3] = 255;
+  }
+
+  const maskCanvas = document.createElement('canvas');
+  maskCanvas.width = canvas.width;
+  maskCanvas.height = canvas.height;
+  maskCanvas.getContext('2d')!.putImageData(output, 0, 0);
+  return maskCanvas.toDataURL('image/png');
+};
+
+/**
+ * Copies the masked region of an edited image onto the original. Pixels outside the
+ * mask are taken from the original unchanged, and the result is a PNG so they are not
+ * altered by lossy re-encoding.
+ * @param originalSrc The image before the edit.
+ * @param editedSrc The model's edited image; it is scaled to the original's size if it differs.
+ * @param maskSrc The black-and-white mask, white where the edit applies.
+ * @returns A promise resolving to the composited image as a PNG data URL.
+ */
+export const compositeMaskedEdit = async (originalSrc: string, editedSrc: string, maskSrc: string): Promise<string> => {
+  const [original, edited, mask] = await Promise.all([loadImage(originalSrc), loadImage(editedSrc), loadImage(maskSrc)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not get canvas context.');
+  }
+
+  const editedPixels = getPixels(context, edited, width, height);
+  // Scale the mask without smoothing so its edge stays hard.
+  context.imageSmoothingEnabled = false;
+  const maskPixels = getPixels(context, mask, width, height);
+  const result = context.createImageData(width, height);
+  result.data.set(getPixels(context, original, width, height));
+
+  for (let i = 0; i < result.data.length; i += 4) {
+    if (maskPixels[i] >= 128) {
+      result.data[i] = editedPixels[i];
+      result.data[i + 1] = editedPixels[i + 1];
+      result.data[i + 2] = editedPixels[i + 2];
+      result.data[i + 3] = editedPixels[i + 3];
+    }
+  }
+
+  context.putImageData(result, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,251 @@
+import { DemuxedVideoTrack, EncodedSample, getAv1CodecString, getAvcCodecString, getHevcCodecString } from './demuxer';
+
+interface Box {
+  type: string;
+  /** Offset of the box payload, after the size/type header. */
+  dataStart: number;
+  end: number;
+}
+
+// VisualSampleEntry fields before its child boxes: 8 bytes of SampleEntry plus 70 bytes of visual fields.
+const VISUAL_SAMPLE_ENTRY_SIZE = 78;
+
+const readFourCC = (view: DataView, offset: number): string =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const readBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = readFourCC(view, offset + 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset; // The box extends to the end of its parent.
+    }
+    if (size < headerSize || offset + size > end) break;
+
+    boxes.push({ type, dataStart: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+const findBox = (view: DataView, parent: Box, type: string): Box | undefined =>
+  readBoxes(view, parent.dataStart, parent.end).find(box => box.type === type);
+
+const findPath = (view: DataView, parent: Box, path: string[]): Box | undefined => {
+  let current: Box | undefined = parent;
+  for (const type of path) {
+    if (!current) return undefined;
+    current = findBox(view, current, type);
+  }
+  return current;
+};
+
+const requireBox = (box: Box | undefined, type: string): Box => {
+  if (!box) {
+    throw new Error(`MP4 file is missing the '${type}' box.`);
+  }
+  return box;
+};
+
+/** Reads the media timescale (units per second) from an mdhd box. */
+const readTimescale = (view: DataView, mdhd: Box): number => {
+  const version = view.getUint8(mdhd.dataStart);
+  return view.getUint32(mdhd.dataStart + (version === 1 ? 20 : 12));
+};
+
+/** Reads the media time at which presentation starts, from the first non-empty edit. */
+const readEditListOffset = (view: DataView, trak: Box): number => {
+  const elst = findPath(view, trak, ['edts', 'elst']);
+  if (!elst) return 0;
+
+  const version = view.getUint8(elst.dataStart);
+  const entryCount = view.getUint32(elst.dataStart + 4);
+  let offset = elst.dataStart + 8;
+
+  for (let i = 0; i < entryCount; i++) {
+    const mediaTime = version === 1
+      ? Number(view.getBigInt64(offset + 8))
+      : view.getInt32(offset + 4);
+    if (mediaTime !== -1) return mediaTime;
+    offset += version === 1 ? 20 : 12;
+  }
+  return 0;
+};
+
+const readSampleEntry = (view: DataView, bytes: Uint8Array, stsd: Box) => {
+  const entry = readBoxes(view, stsd.dataStart + 8, stsd.end)[0];
+  if (!entry) {
+    throw new Error('MP4 video track has no sample description.');
+  }
+
+  const codedWidth = view.getUint16(entry.dataStart + 24);
+  const codedHeight = view.getUint16(entry.dataStart + 26);
+  const children = readBoxes(view, entry.dataStart + VISUAL_SAMPLE_ENTRY_SIZE, entry.end);
+  const config = (type: string) => {
+    const box = children.find(child => child.type === type);
+    return box ? bytes.subarray(box.dataStart, box.end) : undefined;
+  };
+
+  switch (entry.type) {
+    case 'avc1':
+    case 'avc3': {
+      const avcC = config('avcC');
+      if (!avcC) throw new Error('H.264 track is missing its avcC record.');
+      return { codec: getAvcCodecString(entry.type, avcC), codedWidth, codedHeight, description: avcC };
+    }
+    case 'hvc1':
+    case 'hev1': {
+      const hvcC = config('hvcC');
+      if (!hvcC) throw new Error('H.265 track is missing its hvcC record.');
+      return { codec: getHevcCodecString(entry.type, hvcC), codedWidth, codedHeight, description: hvcC };
+    }
+    case 'vp09': {
+      const vpcC = config('vpcC');
+      // vpcC is a full box: version and flags precede the profile, level and bit depth.
+      const codec = vpcC
+        ? `vp09.${String(vpcC[4]).padStart(2, '0')}.${String(vpcC[5]).padStart(2, '0')}.${String(vpcC[6] >> 4).padStart(2, '0')}`
+        : 'vp09.00.10.08';
+      return { codec, codedWidth, codedHeight };
+    }
+    case 'av01': {
+      const av1C = config('av1C');
+      if (!av1C) throw new Error('AV1 track is missing its av1C record.');
+      return { codec: getAv1CodecString(av1C), codedWidth, codedHeight, description: av1C };
+    }
+    default:
+      throw new Error(`Unsupported MP4 video codec '${entry.type}'.`);
+  }
+};
+
+/**
+ * Demuxes the first video track of a progressive (non-fragmented) MP4 file.
+ * @param bytes The complete file contents.
+ * @returns The video track's decoder configuration and samples in decode order.
+ */
+export const demuxMp4 = (bytes: Uint8Array): DemuxedVideoTrack => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const root: Box = { type: 'root', dataStart: 0, end: bytes.byteLength };
+  const moov = requireBox(findBox(view, root, 'moov'), 'moov');
+
+  if (findBox(view, moov, 'mvex')) {
+    throw new Error('Fragmented MP4 files are not supported.');
+  }
+
+  const trak = readBoxes(view, moov.dataStart, moov.end)
+    .filter(box => box.type === 'trak')
+    .find(box => {
+      const hdlr = findPath(view, box, ['mdia', 'hdlr']);
+      return hdlr && readFourCC(view, hdlr.dataStart + 8) === 'vide';
+    });
+  if (!trak) {
+    throw new Error('MP4 file has no video track.');
+  }
+
+  const mdia = requireBox(findBox(view, trak, 'mdia'), 'mdia');
+  const timescale = readTimescale(view, requireBox(findBox(view, mdia, 'mdhd'), 'mdhd'));
+  const stbl = requireBox(findPath(view, mdia, ['minf', 'stbl']), 'stbl');
+  const table = (type: string) => findBox(view, stbl, type);
+
+  const { codec, codedWidth, codedHeight, description } = readSampleEntry(view, bytes, requireBox(table('stsd'), 'stsd'));
+
+  // Sample sizes
+  const stsz = requireBox(table('stsz'), 'stsz');
+  const fixedSize = view.getUint32(stsz.dataStart + 4);
+  const sampleCount = view.getUint32(stsz.dataStart + 8);
+  const sizes = Array.from({ length: sampleCount }, (_, i) =>
+    fixedSize !== 0 ? fixedSize : view.getUint32(stsz.dataStart + 12 + i * 4)
+  );
+
+  // Chunk offsets
+  const stco = table('stco');
+  const co64 = table('co64');
+  const chunkTable = requireBox(stco ?? co64, 'stco');
+  const chunkCount = view.getUint32(chunkTable.dataStart + 4);
+  const chunkOffsets = Array.from({ length: chunkCount }, (_, i) =>
+    stco ? view.getUint32(stco.dataStart + 8 + i * 4) : Number(view.getBigUint64(chunkTable.dataStart + 8 + i * 8))
+  );
+
+  // Sample-to-chunk runs, expanded into a byte offset per sample
+  const stsc = requireBox(table('stsc'), 'stsc');
+  const runCount = view.getUint32(stsc.dataStart + 4);
+  const offsets: number[] = [];
+  for (let run = 0; run < runCount; run++) {
+    const entry = stsc.dataStart + 8 + run * 12;
+    const firstChunk = view.getUint32(entry) - 1;
+    const samplesPerChunk = view.getUint32(entry + 4);
+    const lastChunk = run + 1 < runCount ? view.getUint32(entry + 12) - 1 : chunkCount;
+    for (let chunk = firstChunk; chunk < lastChunk; chunk++) {
+      let offset = chunkOffsets[chunk];
+      for (let i = 0; i < samplesPerChunk && offsets.length < sampleCount; i++) {
+        offsets.push(offset);
+        offset += sizes[offsets.length - 1];
+      }
+    }
+  }
+
+  // Decode times
+  const stts = requireBox(table('stts'), 'stts');
+  const decodeTimes: number[] = [];
+  const durations: number[] = [];
+  let decodeTime = 0;
+  for (let i = 0, count = view.getUint32(stts.dataStart + 4); i < count; i++) {
+    const runLength = view.getUint32(stts.dataStart + 8 + i * 8);
+    const delta = view.getUint32(stts.dataStart + 12 + i * 8);
+    for (let j = 0; j < runLength; j++) {
+      decodeTimes.push(decodeTime);
+      durations.push(delta);
+      decodeTime += delta;
+    }
+  }
+
+  // Composition offsets (present when frames are reordered, e.g. B-frames)
+  const compositionOffsets = new Array<number>(sampleCount).fill(0);
+  const ctts = table('ctts');
+  if (ctts) {
+    const version = view.getUint8(ctts.dataStart);
+    let sample = 0;
+    for (let i = 0, count = view.getUint32(ctts.dataStart + 4); i < count; i++) {
+      const runLength = view.getUint32(ctts.dataStart + 8 + i * 8);
+      const offset = version === 1
+        ? view.getInt32(ctts.dataStart + 12 + i * 8)
+        : view.getUint32(ctts.dataStart + 12 + i * 8);
+      for (let j = 0; j < runLength && sample < sampleCount; j++) {
+        compositionOffsets[sample++] = offset;
+      }
+    }
+  }
+
+  // Sync samples; without an stss box every sample is a keyframe
+  const stss = table('stss');
+  const syncSamples = stss
+    ? new Set(Array.from({ length: view.getUint32(stss.dataStart + 4) }, (_, i) => view.getUint32(stss.dataStart + 8 + i * 4) - 1))
+    : null;
+
+  const presentationOffset = readEditListOffset(view, trak);
+  const toMicroseconds = (units: number) => Math.round((units * 1e6) / timescale);
+
+  const samples: EncodedSample[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    if (offsets[i] === undefined || decodeTimes[i] === undefined) break;
+    samples.push({
+      timestamp: Math.max(0, toMicroseconds(decodeTimes[i] + compositionOffsets[i] - presentationOffset)),
+      duration: toMicroseconds(durations[i]),
+      isKey: syncSamples ? syncSamples.has(i) : true,
+      data: bytes.subarray(offsets[i], offsets[i] + sizes[i]),
+    });
+  }
+
+  if (samples.length === 0) {
+    throw new Error('MP4 video track has no samples.');
+  }
+
+  return { codec, codedWidth, codedHeight, description, samples };
+};
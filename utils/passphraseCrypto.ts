@@ -0,0 +1,79 @@
+/** Data encrypted with a passphrase, in a form that can be stored as JSON. */
+export interface EncryptedPayload {
+  /** Base64 PBKDF2 salt. */
+  salt: string;
+  iterations: number;
+  /** Base64 AES-GCM initialization vector. */
+  iv: string;
+  /** Base64 ciphertext, including the authentication tag. */
+  data: string;
+}
+
+// OWASP's recommended PBKDF2-HMAC-SHA256 work factor. Existing payloads store their own count, so they still decrypt.
+export const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+/**
+ * Creates a random salt for a new passphrase.
+ * @returns The base64 salt.
+ */
+export const createSalt = (): string => toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+
+/**
+ * Derives an AES-GCM key from a passphrase with PBKDF2. The key cannot be exported.
+ * @param passphrase The user's passphrase.
+ * @param salt The base64 salt stored with the encrypted data.
+ * @param iterations The PBKDF2 iteration count.
+ * @returns A promise that resolves to the key.
+ */
+export const deriveKey = async (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypts text with a fresh initialization vector.
+ * @param key The key from deriveKey.
+ * @param salt The salt the key was derived with, stored alongside so the key can be derived again.
+ * @param iterations The iteration count the key was derived with.
+ * @param text The text to encrypt.
+ * @returns A promise that resolves to the encrypted payload.
+ */
+export const encryptText = async (key: CryptoKey, salt: string, iterations: number, text: string): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { salt, iterations, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+/**
+ * Decrypts a payload.
+ * @param key The key derived from the payload's salt and iterations.
+ * @param payload The encrypted payload.
+ * @returns A promise that resolves to the original text.
+ * @throws An error if the key is wrong or the data has been altered.
+ */
+export const decryptText = async (key: CryptoKey, payload: EncryptedPayload): Promise<string> => {
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new Error('Wrong passphrase, or the encrypted data is damaged.');
+  }
+};
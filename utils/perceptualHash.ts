@@ -0,0 +1,138 @@
+/**
+ * Perceptual hashing used to find near-duplicate frames anywhere in a project.
+ * Hashes are 64-bit difference hashes (dHash) stored as 16 hex characters.
+ */
+
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+
+/** Images are drawn at this size before hashing when no analysis copy is available. */
+const HASH_SOURCE_WIDTH = HASH_COLUMNS * 8;
+const HASH_SOURCE_HEIGHT = HASH_ROWS * 8;
+
+/** Hashes differing in at most this many of their 64 bits are treated as the same picture. */
+export const DUPLICATE_HASH_DISTANCE = 10;
+
+/**
+ * Computes the difference hash of an image: its luma is averaged into a 9x8 grid and
+ * each bit records whether a cell is brighter than its right-hand neighbour.
+ * @param data The RGBA pixel data.
+ * @param width The image width.
+ * @param height The image height.
+ * @returns The hash as 16 hex characters.
+ */
+export const computeDHash = (data: Uint8ClampedArray, width: number, height: number): string => {
+  const sums = new Float64Array(HASH_COLUMNS * HASH_ROWS);
+  const counts = new Uint32Array(HASH_COLUMNS * HASH_ROWS);
+
+  for (let y = 0; y < height; y++) {
+    const rowOffset = Math.floor((y * HASH_ROWS) / height) * HASH_COLUMNS;
+    for (let x = 0; x < width; x++) {
+      const cell = rowOffset + Math.floor((x * HASH_COLUMNS) / width);
+      const i = (y * width + x) * 4;
+      sums[cell] += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      counts[cell]++;
+    }
+  }
+
+  const cellValue = (cell: number) => (counts[cell] > 0 ? sums[cell] / counts[cell] : 0);
+  let hash = '';
+  for (let row = 0; row < HASH_ROWS; row++) {
+    // Each row contributes 8 bits, written as two hex digits.
+    let byte = 0;
+    for (let column = 0; column < HASH_COLUMNS - 1; column++) {
+      const cell = row * HASH_COLUMNS + column;
+      byte = (byte << 1) | (cellValue(cell) > cellValue(cell + 1) ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+};
+
+/**
+ * Counts the bits that differ between two hashes.
+ * @returns The Hamming distance, from 0 (identical) to 64.
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let bits = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Hashes an image given as a URL or data URL.
+ * @param src The image source.
+ * @returns A promise that resolves to the image's difference hash.
+ */
+export const hashImage = (src: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = HASH_SOURCE_WIDTH;
+      canvas.height = HASH_SOURCE_HEIGHT;
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (!context) {
+        return reject(new Error('Could not get canvas context.'));
+      }
+      context.drawImage(image, 0, 0, HASH_SOURCE_WIDTH, HASH_SOURCE_HEIGHT);
+      resolve(computeDHash(context.getImageData(0, 0, HASH_SOURCE_WIDTH, HASH_SOURCE_HEIGHT).data, HASH_SOURCE_WIDTH, HASH_SOURCE_HEIGHT));
+    };
+    image.onerror = () => reject(new Error('Could not load the image to hash it.'));
+    image.src = src;
+  });
+};
+
+/**
+ * Finds the first hash in a list that is a near-duplicate of the given one.
+ * @returns The index of the matching hash, or -1 if there is none.
+ */
+export const findNearDuplicate = (
+  hash: string,
+  hashes: Array<string | undefined>,
+  maxDistance: number = DUPLICATE_HASH_DISTANCE
+): number => hashes.findIndex(other => other !== undefined && hammingDistance(hash, other) <= maxDistance);
+
+/**
+ * Groups near-duplicate hashes. Look-alikes are grouped transitively, so a slow
+ * fade can chain frames together even if its ends differ more than the threshold.
+ * @param hashes One hash per frame; frames without a hash are never grouped.
+ * @returns Groups of two or more frame indices, each sorted and ordered by first index.
+ */
+export const findDuplicateGroups = (
+  hashes: Array<string | undefined>,
+  maxDistance: number = DUPLICATE_HASH_DISTANCE
+): number[][] => {
+  const parent = hashes.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < hashes.length; i++) {
+    const a = hashes[i];
+    if (a === undefined) continue;
+    for (let j = i + 1; j < hashes.length; j++) {
+      const b = hashes[j];
+      if (b !== undefined && hammingDistance(a, b) <= maxDistance) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  hashes.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
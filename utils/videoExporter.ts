@@ -0,0 +1,185 @@
+export type VideoExportFormat = 'webm' | 'mp4';
+
+export interface VideoExportOptions {
+  format: VideoExportFormat;
+  /** 'original' places each frame at its source timestamp; 'fixed' shows every frame for 1/fps seconds. */
+  timing: 'original' | 'fixed';
+  fps: number;
+  /** Mux the audio of the source video back in. */
+  includeAudio: boolean;
+}
+
+export interface VideoExportFrame {
+  src: string;
+  /** Time of the frame in the source video, in seconds. */
+  timestamp?: number;
+}
+
+/** Rate at which the canvas is redrawn and captured while recording. */
+const CAPTURE_FRAME_RATE = 30;
+
+const MIME_TYPE_CANDIDATES: Record<VideoExportFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1.42E01E,mp4a.40.2', 'video/mp4;codecs=avc1,mp4a', 'video/mp4'],
+};
+
+/**
+ * Picks the first container/codec combination the browser can record.
+ * @returns The MIME type to record with, or null if the format is unsupported.
+ */
+export const getSupportedMimeType = (format: VideoExportFormat): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_TYPE_CANDIDATES[format].find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load a frame for export.'));
+    image.src = src;
+  });
+};
+
+const loadVideo = (file: File): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.src = URL.createObjectURL(file);
+    video.preload = 'auto';
+    video.addEventListener('loadedmetadata', () => resolve(video), { once: true });
+    video.addEventListener('error', () => reject(new Error('Could not load the source video for its audio.')), { once: true });
+  });
+};
+
+/**
+ * Works out when each frame starts and how long the export runs.
+ * Frames without a timestamp fall back to fixed timing for the whole export.
+ */
+const getSchedule = (frames: VideoExportFrame[], options: VideoExportOptions, audioDuration: number | null) => {
+  const hold = 1 / options.fps;
+  const hasTimestamps = frames.every(frame => frame.timestamp !== undefined);
+
+  if (options.timing === 'original' && hasTimestamps) {
+    // With audio the frames stay aligned to the source; otherwise the export starts at the first frame.
+    const origin = audioDuration !== null ? 0 : (frames[0].timestamp ?? 0);
+    const starts = frames.map(frame => Math.max(0, (frame.timestamp ?? 0) - origin));
+    const duration = audioDuration ?? starts[starts.length - 1] + hold;
+    return { starts, duration };
+  }
+
+  return { starts: frames.map((_, i) => i * hold), duration: frames.length * hold };
+};
+
+/**
+ * Records frames into a video by drawing them onto a canvas and capturing it with MediaRecorder.
+ * Recording happens in real time, so the export takes as long as the resulting video.
+ * @param frames The frames to encode, in playback order.
+ * @param sourceVideo The uploaded video, used for its audio track.
+ * @param options The container, timing and audio options.
+ * @param onProgress Callback with the fraction of the video recorded so far.
+ * @returns A promise that resolves to the recorded video.
+ * @throws An error if the browser cannot record the chosen format.
+ */
+export const exportVideo = async (
+  frames: VideoExportFrame[],
+  sourceVideo: File | null,
+  options: VideoExportOptions,
+  onProgress: (fraction: number) => void
+): Promise<Blob> => {
+  if (frames.length === 0) {
+    throw new Error('There are no frames to export.');
+  }
+  const mimeType = getSupportedMimeType(options.format);
+  if (!mimeType) {
+    throw new Error(`This browser cannot record ${options.format.toUpperCase()} video.`);
+  }
+
+  // With original timing, frames play in source order whatever order they were selected in.
+  const orderedFrames = options.timing === 'original'
+    ? [...frames].sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0))
+    : frames;
+  const images = await Promise.all(orderedFrames.map(frame => loadImage(frame.src)));
+
+  const canvas = document.createElement('canvas');
+  // Encoders need even dimensions.
+  canvas.width = images[0].naturalWidth - (images[0].naturalWidth % 2);
+  canvas.height = images[0].naturalHeight - (images[0].naturalHeight % 2);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not get canvas context.');
+  }
+
+  const drawImage = (image: HTMLImageElement) => {
+    // Letterbox frames whose size differs from the first one.
+    const scale = Math.min(canvas.width / image.naturalWidth, canvas.height / image.naturalHeight);
+    const width = image.naturalWidth * scale;
+    const height = image.naturalHeight * scale;
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+  };
+
+  const audioVideo = options.includeAudio && sourceVideo ? await loadVideo(sourceVideo) : null;
+  let audioContext: AudioContext | null = null;
+  const stream = canvas.captureStream(CAPTURE_FRAME_RATE);
+
+  try {
+    if (audioVideo) {
+      // Route the source audio into the recording only, not to the speakers.
+      audioContext = new AudioContext();
+      const destination = audioContext.createMediaStreamDestination();
+      audioContext.createMediaElementSource(audioVideo).connect(destination);
+      destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+    }
+
+    const { starts, duration } = getSchedule(orderedFrames, options, audioVideo ? audioVideo.duration : null);
+    const chunks: Blob[] = [];
+    const recorder = new MediaRecorder(stream, { mimeType });
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve, reject) => {
+      recorder.onstop = () => resolve();
+      recorder.onerror = () => reject(new Error('Recording the video failed.'));
+    });
+
+    drawImage(images[0]);
+    if (audioVideo) {
+      audioVideo.currentTime = 0;
+      await audioVideo.play();
+    }
+    recorder.start();
+    const startedAt = performance.now();
+
+    await new Promise<void>(resolve => {
+      let frameIndex = 0;
+      const tick = () => {
+        const time = (performance.now() - startedAt) / 1000;
+        if (time >= duration) {
+          resolve();
+          return;
+        }
+        while (frameIndex + 1 < starts.length && starts[frameIndex + 1] <= time) {
+          frameIndex++;
+        }
+        // Redraw every tick so the captured stream keeps producing frames during long holds.
+        drawImage(images[frameIndex]);
+        onProgress(time / duration);
+        setTimeout(tick, 1000 / CAPTURE_FRAME_RATE);
+      };
+      tick();
+    });
+
+    recorder.stop();
+    await stopped;
+    onProgress(1);
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+    if (audioVideo) {
+      audioVideo.pause();
+      URL.revokeObjectURL(audioVideo.src);
+    }
+    audioContext?.close();
+  }
+};
@@ -1,163 +1,269 @@
+import { ExtractionBackend, FrameMetadata } from '../types';
+import { demuxVideo } from './demuxer';
+import { DUPLICATE_HASH_DISTANCE, findNearDuplicate } from './perceptualHash';
+import {
+  createFrameEvaluator,
+  FrameAnalysisOptions,
+  FrameAnalysisResponse,
+  FrameAnalysisResult,
+  getAnalysisSize,
+} from './frameAnalysis';
+
+/** An extracted frame; frameNumber is only known when decoding with WebCodecs. */
+export interface ExtractedFrame extends FrameMetadata {
+  src: string;
+  timestamp: number;
+  width: number;
+  height: number;
+  blurScore: number;
+  /** Perceptual hash of the frame. */
+  hash: string;
+}
+
+/** The part of an extracted frame that is captured from the video rather than from analysis. */
+type CapturedFrame = Pick<ExtractedFrame, 'src' | 'timestamp' | 'frameNumber' | 'width' | 'height'>;
+
+type ExtractionProgress = (progress: { current: number; total: number; accepted: number }) => void;
+
+type ExtractionOptions = FrameAnalysisOptions & { backend: ExtractionBackend };
 
 /**
- * Calculates the variance of the Laplacian of an image to detect blur.
- * A low variance suggests a lack of edges and thus a blurry image.
- * @param context The canvas 2D rendering context containing the frame.
- * @param width The width of the canvas.
- * @param height The height of the canvas.
- * @param blurThreshold The sensitivity threshold for blur detection.
- * @returns True if the frame is likely blurry, false otherwise.
+ * The largest file WebCodecs extraction accepts. The demuxer needs the whole file in memory,
+ * so larger videos are extracted by seeking instead.
  */
-const isFrameBlurry = (context: CanvasRenderingContext2D, width: number, height: number, blurThreshold: number): boolean => {
-    const imageData = context.getImageData(0, 0, width, height);
-    const gray = new Uint8ClampedArray(width * height);
-    
-    // Convert image to grayscale for simpler analysis
-    for (let i = 0; i < imageData.data.length; i += 4) {
-        const r = imageData.data[i];
-        const g = imageData.data[i + 1];
-        const b = imageData.data[i + 2];
-        gray[i / 4] = 0.299 * r + 0.587 * g + 0.114 * b;
-    }
+export const MAX_WEBCODECS_FILE_SIZE = 512 * 1024 * 1024;
 
-    let laplacianMean = 0;
-    const laplacianValues: number[] = [];
-
-    // Apply a 3x3 Laplacian kernel to find edges
-    for (let y = 1; y < height - 1; y++) {
-        for (let x = 1; x < width - 1; x++) {
-            const center = gray[y * width + x];
-            const top = gray[(y - 1) * width + x];
-            const bottom = gray[(y + 1) * width + x];
-            const left = gray[y * width + (x - 1)];
-            const right = gray[y * width + (x + 1)];
-            const laplacian = (top + bottom + left + right) - 4 * center;
-            laplacianValues.push(laplacian);
-            laplacianMean += laplacian;
-        }
-    }
+interface FrameAnalyzer {
+  analyze: (source: HTMLVideoElement | VideoFrame, width: number, height: number, options: FrameAnalysisOptions) => Promise<FrameAnalysisResult>;
+  dispose: () => void;
+}
 
-    if (laplacianValues.length === 0) return false;
+// Limits on work in flight while decoding, so the decoder's frame pool is never exhausted.
+const MAX_DECODE_QUEUE_SIZE = 8;
+const MAX_PENDING_FRAMES = 2;
 
-    laplacianMean /= laplacianValues.length;
+/**
+ * Analyses frames on the main thread for browsers without OffscreenCanvas in workers.
+ * Still works on the downscaled copy so large videos stay manageable.
+ */
+const createMainThreadFrameAnalyzer = (): FrameAnalyzer => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  const evaluator = createFrameEvaluator();
 
-    // Calculate the variance of the Laplacian values
-    let variance = 0;
-    for (const value of laplacianValues) {
-        variance += Math.pow(value - laplacianMean, 2);
+  return {
+    analyze: async (source, sourceWidth, sourceHeight, options) => {
+      if (!context) {
+        throw new Error('Could not get canvas context.');
+      }
+      const { width, height } = getAnalysisSize(sourceWidth, sourceHeight);
+      canvas.width = width;
+      canvas.height = height;
+      context.drawImage(source, 0, 0, width, height);
+      const pixels = context.getImageData(0, 0, width, height).data;
+      return evaluator.evaluate(pixels, width, height, options);
+    },
+    dispose: () => {},
+  };
+};
+
+/**
+ * Analyses frames in a Web Worker, transferring a downscaled ImageBitmap of each
+ * frame so pixel work never blocks the main thread. If the worker fails to load or
+ * cannot read pixels (e.g. blocked by CSP, or no 2D OffscreenCanvas), the waiting frames
+ * and every later one are analysed on the main thread instead.
+ */
+const createWorkerFrameAnalyzer = (): FrameAnalyzer => {
+  const worker = new Worker(new URL('./frameAnalysis.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (result: FrameAnalysisResult) => void; reject: (error: unknown) => void; analyzeWith: (analyzer: FrameAnalyzer) => Promise<FrameAnalysisResult> }>();
+  let nextId = 0;
+  let fallback: FrameAnalyzer | null = null;
+
+  const fallBackToMainThread = (reason: string) => {
+    if (fallback) return;
+    console.warn(`Frame analysis worker failed (${reason}); analysing on the main thread instead.`);
+    worker.terminate();
+    const mainThreadAnalyzer = createMainThreadFrameAnalyzer();
+    fallback = mainThreadAnalyzer;
+    // Retried in the order they were sent, as scene detection compares each frame with the one before.
+    const waiting = [...pending.values()];
+    pending.clear();
+    waiting.forEach(request => request.analyzeWith(mainThreadAnalyzer).then(request.resolve, request.reject));
+  };
+  const getFallback = () => fallback;
+
+  worker.onmessage = (event: MessageEvent<FrameAnalysisResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    if ('error' in response) {
+      fallBackToMainThread(response.error);
+    } else {
+      pending.delete(response.id);
+      request.resolve(response.result);
     }
-    variance /= laplacianValues.length;
-    
-    return variance < blurThreshold;
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    fallBackToMainThread(event.message || 'the worker could not be loaded');
+  };
+
+  return {
+    analyze: async (source, sourceWidth, sourceHeight, options) => {
+      const analyzeWith = (analyzer: FrameAnalyzer) => analyzer.analyze(source, sourceWidth, sourceHeight, options);
+      const earlyFallback = getFallback();
+      if (earlyFallback) {
+        return analyzeWith(earlyFallback);
+      }
+      const { width, height } = getAnalysisSize(sourceWidth, sourceHeight);
+      const bitmap = await createImageBitmap(source, { resizeWidth: width, resizeHeight: height, resizeQuality: 'medium' });
+      // The worker may have failed while the bitmap was being made.
+      const lateFallback = getFallback();
+      if (lateFallback) {
+        bitmap.close();
+        return analyzeWith(lateFallback);
+      }
+      const id = nextId++;
+      return new Promise((resolve, reject) => {
+        // Callers keep the source open until this resolves, so it can still be drawn on the main thread.
+        pending.set(id, { resolve, reject, analyzeWith });
+        worker.postMessage({ type: 'analyze', id, bitmap, options }, [bitmap]);
+      });
+    },
+    dispose: () => {
+      worker.terminate();
+      fallback?.dispose();
+    },
+  };
 };
 
 /**
- * Calculates the Mean Absolute Difference between the current frame and the previous one.
- * This helps filter out frames that are visually very similar (e.g., static scenes).
- * @param currentContext The canvas context with the current frame.
- * @param previousFrameData The ImageData of the last accepted frame.
- * @param width The width of the canvas.
- * @param height The height of the canvas.
- * @param similarityThreshold The sensitivity threshold for similarity.
- * @returns True if the frames are considered similar, false otherwise.
+ * Collects extracted frames from analysis results. Each shot's current candidate is held
+ * back until the next shot starts, so scene mode can swap in sharper frames as they appear.
+ * Candidates that look like any frame already collected are dropped, so a scene that
+ * returns later in the video is only extracted once.
  */
-const areFramesSimilar = (
-  currentContext: CanvasRenderingContext2D,
-  previousFrameData: ImageData | null,
-  width: number,
-  height: number,
-  similarityThreshold: number
-): boolean => {
-  if (!previousFrameData) {
-    return false; // The first frame is always unique.
-  }
-  
-  const currentFrameData = currentContext.getImageData(0, 0, width, height);
-  
-  // For performance, sample a subset of pixels instead of all of them.
-  const sampleRate = 10;
-  let diff = 0;
-  const numPixels = (width * height);
-
-  for (let i = 0; i < numPixels * 4; i += 4 * sampleRate) {
-    diff += Math.abs(currentFrameData.data[i] - previousFrameData.data[i]);       // Red channel
-    diff += Math.abs(currentFrameData.data[i+1] - previousFrameData.data[i+1]); // Green channel
-    diff += Math.abs(currentFrameData.data[i+2] - previousFrameData.data[i+2]); // Blue channel
-  }
+const createFrameCollector = () => {
+  const frames: ExtractedFrame[] = [];
+  let candidate: ExtractedFrame | null = null;
+  let shotCutScore: number | null = null;
 
-  const totalSamples = numPixels / sampleRate;
-  const avgDiff = diff / (totalSamples * 3); // Average difference per channel
+  const commitCandidate = () => {
+    if (candidate && findNearDuplicate(candidate.hash, frames.map(frame => frame.hash), DUPLICATE_HASH_DISTANCE) === -1) {
+      frames.push(candidate);
+    }
+    candidate = null;
+  };
 
-  return avgDiff < similarityThreshold;
+  return {
+    /**
+     * @param result The analysis result for the frame.
+     * @param capture Encodes the frame at full resolution; only called for accepted frames.
+     */
+    add: (result: FrameAnalysisResult, capture: () => CapturedFrame) => {
+      if (result.sceneCut) {
+        commitCandidate();
+        shotCutScore = result.histogramDistance !== null ? result.histogramDistance * 100 : null;
+      }
+      if (result.accepted) {
+        candidate = {
+          ...capture(),
+          hash: result.hash,
+          blurScore: result.blurVariance,
+          similarityScore: result.difference ?? shotCutScore ?? undefined,
+        };
+      }
+    },
+    /** The number of frames collected so far, including the pending candidate. */
+    count: () => frames.length + (candidate ? 1 : 0),
+    finish: (): ExtractedFrame[] => {
+      commitCandidate();
+      return frames;
+    },
+  };
 };
 
+const createFrameAnalyzer = (): FrameAnalyzer => {
+  if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined') {
+    try {
+      return createWorkerFrameAnalyzer();
+    } catch (error) {
+      console.warn('Could not start the frame analysis worker; analysing on the main thread instead.', error);
+    }
+  }
+  return createMainThreadFrameAnalyzer();
+};
 
 /**
- * Extracts distinct, non-blurry frames from a video file by analyzing it frame by frame.
- * @param videoFile The video file to process.
- * @param framesPerSecond The number of frames to analyze per second of video.
- * @param onProgress Callback to report progress, including checked frames, total frames to check, and accepted unique frames.
- * @param options Object containing thresholds for blur and similarity.
- * @returns A promise that resolves to an object containing an array of base64 encoded frame images and the video's aspect ratio.
+ * Extracts frames by seeking a hidden video element to each sample time.
+ * Works everywhere, but browsers may snap seeks to nearby keyframes.
  */
-export const extractFrames = (
+const extractFramesBySeeking = (
   videoFile: File,
   framesPerSecond: number,
-  onProgress: (progress: { current: number; total: number; accepted: number }) => void,
-  options: { blurThreshold: number; similarityThreshold: number }
-): Promise<{ frames: string[], aspectRatio: number }> => {
+  onProgress: ExtractionProgress,
+  options: FrameAnalysisOptions
+): Promise<{ frames: ExtractedFrame[], aspectRatio: number }> => {
   return new Promise((resolve, reject) => {
     const video = document.createElement('video');
     const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d', { willReadFrequently: true });
-    
-    const frames: string[] = [];
-    let lastAcceptedFrameData: ImageData | null = null;
+    const context = canvas.getContext('2d');
+
+    const collector = createFrameCollector();
 
     if (!context) {
       return reject(new Error('Could not get canvas context.'));
     }
 
+    const analyzer = createFrameAnalyzer();
     const videoUrl = URL.createObjectURL(videoFile);
     video.src = videoUrl;
     video.muted = true;
 
+    const cleanUp = () => {
+      analyzer.dispose();
+      URL.revokeObjectURL(videoUrl);
+    };
+
     video.addEventListener('loadedmetadata', () => {
       canvas.width = video.videoWidth;
       canvas.height = video.videoHeight;
       const aspectRatio = video.videoWidth / video.videoHeight;
-      
+
       const duration = video.duration;
       const interval = 1 / framesPerSecond;
       const totalFramesToCheck = Math.floor(duration / interval);
       let currentTime = 0;
-      let acceptedFrameCount = 0;
       let checkedFrameCount = 0;
 
       const processFrame = () => {
         if (currentTime > duration) {
-          URL.revokeObjectURL(videoUrl);
-          resolve({ frames, aspectRatio });
+          cleanUp();
+          resolve({ frames: collector.finish(), aspectRatio });
           return;
         }
         video.currentTime = currentTime;
       };
 
-      video.addEventListener('seeked', () => {
-        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      video.addEventListener('seeked', async () => {
         checkedFrameCount++;
-        
-        const isBlurry = isFrameBlurry(context, canvas.width, canvas.height, options.blurThreshold);
-        const isSimilar = areFramesSimilar(context, lastAcceptedFrameData, canvas.width, canvas.height, options.similarityThreshold);
-        
-        if (!isBlurry && !isSimilar) {
-          frames.push(canvas.toDataURL('image/jpeg'));
-          lastAcceptedFrameData = context.getImageData(0, 0, canvas.width, canvas.height);
-          acceptedFrameCount++;
+
+        try {
+          const result = await analyzer.analyze(video, video.videoWidth, video.videoHeight, options);
+          // Only accepted frames are drawn and encoded at full resolution.
+          collector.add(result, () => {
+            context.drawImage(video, 0, 0, canvas.width, canvas.height);
+            return { src: canvas.toDataURL('image/jpeg'), timestamp: video.currentTime, width: canvas.width, height: canvas.height };
+          });
+        } catch (error) {
+          cleanUp();
+          reject(error);
+          return;
         }
-        
-        onProgress({ current: checkedFrameCount, total: totalFramesToCheck, accepted: acceptedFrameCount });
-        
+
+        onProgress({ current: checkedFrameCount, total: totalFramesToCheck, accepted: collector.count() });
+
         currentTime += interval;
         processFrame();
       });
@@ -166,10 +272,159 @@ export const extractFrames = (
     });
 
     video.addEventListener('error', (e) => {
-      URL.revokeObjectURL(videoUrl);
+      cleanUp();
       reject(new Error(`Video loading error: ${e.message ? e.message : 'Unknown error'}`));
     });
 
     video.load();
   });
 };
+
+/**
+ * Extracts frames by demuxing the file and decoding every frame with WebCodecs.
+ * Frame-accurate, and reports each frame's exact number and presentation timestamp.
+ * @throws An error if the container, codec or browser is not supported.
+ */
+const extractFramesWithWebCodecs = async (
+  videoFile: File,
+  framesPerSecond: number,
+  onProgress: ExtractionProgress,
+  options: FrameAnalysisOptions
+): Promise<{ frames: ExtractedFrame[], aspectRatio: number }> => {
+  const track = demuxVideo(await videoFile.arrayBuffer());
+  if (!track.samples[0].isKey) {
+    throw new Error('The video does not start with a keyframe.');
+  }
+
+  const config: VideoDecoderConfig = {
+    codec: track.codec,
+    codedWidth: track.codedWidth || undefined,
+    codedHeight: track.codedHeight || undefined,
+    description: track.description,
+  };
+  const { supported } = await VideoDecoder.isConfigSupported(config);
+  if (!supported) {
+    throw new Error(`This browser cannot decode ${track.codec} with WebCodecs.`);
+  }
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not get canvas context.');
+  }
+
+  const analyzer = createFrameAnalyzer();
+  const collector = createFrameCollector();
+  const interval = 1e6 / framesPerSecond; // microseconds
+  const lastTimestamp = track.samples.reduce((max, sample) => Math.max(max, sample.timestamp), 0);
+  const totalFramesToCheck = Math.floor(lastTimestamp / interval) + 1;
+
+  let aspectRatio = track.codedWidth / track.codedHeight;
+  let nextSampleTime = 0;
+  let decodedFrameCount = 0;
+  let checkedFrameCount = 0;
+  let pendingFrames = 0;
+  let processing = Promise.resolve();
+  let failure: { error: unknown } | null = null;
+
+  const handleFrame = async (frame: VideoFrame, frameNumber: number) => {
+    try {
+      if (failure) return;
+      const { displayWidth, displayHeight } = frame;
+      const result = await analyzer.analyze(frame, displayWidth, displayHeight, options);
+      checkedFrameCount++;
+      collector.add(result, () => {
+        canvas.width = displayWidth;
+        canvas.height = displayHeight;
+        context.drawImage(frame, 0, 0, displayWidth, displayHeight);
+        return { src: canvas.toDataURL('image/jpeg'), timestamp: frame.timestamp / 1e6, frameNumber, width: displayWidth, height: displayHeight };
+      });
+      onProgress({ current: checkedFrameCount, total: totalFramesToCheck, accepted: collector.count() });
+    } catch (error) {
+      failure ??= { error };
+    } finally {
+      frame.close();
+      pendingFrames--;
+    }
+  };
+
+  // Frames are output in presentation order, so counting them gives exact frame numbers.
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      const frameNumber = decodedFrameCount++;
+      if (frame.timestamp < nextSampleTime || failure) {
+        frame.close();
+        return;
+      }
+      nextSampleTime = (Math.floor(frame.timestamp / interval) + 1) * interval;
+      aspectRatio = frame.displayWidth / frame.displayHeight;
+      pendingFrames++;
+      processing = processing.then(() => handleFrame(frame, frameNumber));
+    },
+    error: (error) => {
+      failure ??= { error };
+    },
+  });
+
+  try {
+    decoder.configure(config);
+    for (const sample of track.samples) {
+      if (failure) break;
+      decoder.decode(new EncodedVideoChunk({
+        type: sample.isKey ? 'key' : 'delta',
+        timestamp: sample.timestamp,
+        duration: sample.duration,
+        data: sample.data,
+      }));
+
+      if (pendingFrames > MAX_PENDING_FRAMES) {
+        await processing;
+      }
+      while (!failure && decoder.decodeQueueSize > MAX_DECODE_QUEUE_SIZE) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+    }
+    if (!failure) {
+      await decoder.flush();
+    }
+    await processing;
+  } catch (error) {
+    failure ??= { error };
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+    analyzer.dispose();
+  }
+
+  if (failure) {
+    throw failure.error;
+  }
+  return { frames: collector.finish(), aspectRatio };
+};
+
+/**
+ * Extracts distinct, non-blurry frames from a video file by analyzing it frame by frame.
+ * @param videoFile The video file to process.
+ * @param framesPerSecond The number of frames to analyze per second of video.
+ * @param onProgress Callback to report progress, including checked frames, total frames to check, and accepted unique frames.
+ * @param options The selection mode and its thresholds, and the preferred extraction backend.
+ * WebCodecs extraction falls back to seeking when the browser or file is not supported,
+ * or when the file is larger than MAX_WEBCODECS_FILE_SIZE.
+ * @returns A promise that resolves to the extracted frames and the video's aspect ratio.
+ */
+export const extractFrames = async (
+  videoFile: File,
+  framesPerSecond: number,
+  onProgress: ExtractionProgress,
+  options: ExtractionOptions
+): Promise<{ frames: ExtractedFrame[], aspectRatio: number }> => {
+  const { backend, ...analysisOptions } = options;
+
+  if (backend === 'webcodecs' && typeof VideoDecoder !== 'undefined' && videoFile.size <= MAX_WEBCODECS_FILE_SIZE) {
+    try {
+      return await extractFramesWithWebCodecs(videoFile, framesPerSecond, onProgress, analysisOptions);
+    } catch (error) {
+      console.warn('WebCodecs extraction failed; falling back to seeking.', error);
+    }
+  }
+  return extractFramesBySeeking(videoFile, framesPerSecond, onProgress, analysisOptions);
+};
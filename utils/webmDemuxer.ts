@@ -0,0 +1,208 @@
+import { DemuxedVideoTrack, EncodedSample, getAv1CodecString, getAvcCodecString } from './demuxer';
+
+// Matroska element ids (including their length marker bits)
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const CODEC_PRIVATE = 0x63a2;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const CLUSTER = 0x1f43b675;
+const CLUSTER_TIMECODE = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+const BLOCK_GROUP = 0xa0;
+const BLOCK = 0xa1;
+const REFERENCE_BLOCK = 0xfb;
+
+/** Master elements whose children are parsed in place rather than skipped. */
+const ENTERED_ELEMENTS = new Set([SEGMENT, INFO, TRACKS, TRACK_ENTRY, VIDEO, CLUSTER]);
+
+const VIDEO_TRACK_TYPE = 1;
+
+interface TrackEntry {
+  number?: number;
+  type?: number;
+  codecId?: string;
+  codecPrivate?: Uint8Array;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Reads an EBML variable-length integer.
+ * @param keepMarker Element ids keep their length marker; sizes and numbers drop it.
+ * @returns The value (or -1 for an unknown size) and the number of bytes read.
+ */
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number } => {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) {
+    throw new Error('Invalid EBML variable-length integer.');
+  }
+
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) length++;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    allOnes &&= bytes[offset + i] === 0xff;
+  }
+
+  return { value: !keepMarker && allOnes ? -1 : value, length };
+};
+
+const readUnsigned = (bytes: Uint8Array, start: number, size: number): number => {
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + bytes[start + i];
+  }
+  return value;
+};
+
+const getCodecConfig = (track: TrackEntry): Pick<DemuxedVideoTrack, 'codec' | 'description'> => {
+  switch (track.codecId) {
+    case 'V_VP8':
+      return { codec: 'vp8' };
+    case 'V_VP9':
+      return { codec: 'vp09.00.10.08' };
+    case 'V_AV1':
+      return track.codecPrivate
+        ? { codec: getAv1CodecString(track.codecPrivate), description: track.codecPrivate }
+        : { codec: 'av01.0.08M.08' };
+    case 'V_MPEG4/ISO/AVC':
+      if (!track.codecPrivate) throw new Error('H.264 track is missing its codec private data.');
+      return { codec: getAvcCodecString('avc1', track.codecPrivate), description: track.codecPrivate };
+    default:
+      throw new Error(`Unsupported WebM video codec '${track.codecId}'.`);
+  }
+};
+
+/**
+ * Demuxes the first video track of a WebM/Matroska file.
+ * Handles the unknown-size segments and clusters written by MediaRecorder.
+ * @param bytes The complete file contents.
+ * @returns The video track's decoder configuration and samples in decode order.
+ */
+export const demuxWebm = (bytes: Uint8Array): DemuxedVideoTrack => {
+  const tracks: TrackEntry[] = [];
+  const blocks: Array<{ trackNumber: number; timecode: number; isKey: boolean; data: Uint8Array }> = [];
+  let timecodeScale = 1_000_000; // nanoseconds per timecode unit
+  let clusterTimecode = 0;
+
+  const readBlock = (start: number, end: number, isKey: boolean) => {
+    const trackNumber = readVint(bytes, start, false);
+    let offset = start + trackNumber.length;
+    const relativeTimecode = (bytes[offset] << 24 >> 16) | bytes[offset + 1]; // signed 16-bit
+    const flags = bytes[offset + 2];
+    offset += 3;
+
+    if (flags & 0x06) {
+      throw new Error('Laced WebM video blocks are not supported.');
+    }
+    blocks.push({
+      trackNumber: trackNumber.value,
+      timecode: clusterTimecode + relativeTimecode,
+      isKey,
+      data: bytes.subarray(offset, end),
+    });
+  };
+
+  // Skip the EBML header, then walk the segment element by element.
+  const header = readVint(bytes, 4, false);
+  let offset = 4 + header.length + header.value;
+
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true);
+    const size = readVint(bytes, offset + id.length, false);
+    const dataStart = offset + id.length + size.length;
+    const dataEnd = size.value === -1 ? bytes.length : Math.min(bytes.length, dataStart + size.value);
+
+    if (ENTERED_ELEMENTS.has(id.value)) {
+      if (id.value === TRACK_ENTRY) tracks.push({});
+      offset = dataStart;
+      continue;
+    }
+    if (size.value === -1) {
+      throw new Error('Unexpected unknown-size WebM element.');
+    }
+
+    const track = tracks[tracks.length - 1];
+    switch (id.value) {
+      case TIMECODE_SCALE:
+        timecodeScale = readUnsigned(bytes, dataStart, size.value);
+        break;
+      case TRACK_NUMBER:
+        if (track) track.number = readUnsigned(bytes, dataStart, size.value);
+        break;
+      case TRACK_TYPE:
+        if (track) track.type = readUnsigned(bytes, dataStart, size.value);
+        break;
+      case CODEC_ID:
+        if (track) track.codecId = new TextDecoder().decode(bytes.subarray(dataStart, dataEnd)).replace(/\0+$/, '');
+        break;
+      case CODEC_PRIVATE:
+        if (track) track.codecPrivate = bytes.subarray(dataStart, dataEnd);
+        break;
+      case PIXEL_WIDTH:
+        if (track) track.width = readUnsigned(bytes, dataStart, size.value);
+        break;
+      case PIXEL_HEIGHT:
+        if (track) track.height = readUnsigned(bytes, dataStart, size.value);
+        break;
+      case CLUSTER_TIMECODE:
+        clusterTimecode = readUnsigned(bytes, dataStart, size.value);
+        break;
+      case SIMPLE_BLOCK:
+        readBlock(dataStart, dataEnd, (bytes[dataStart + readVint(bytes, dataStart, false).length + 2] & 0x80) !== 0);
+        break;
+      case BLOCK_GROUP: {
+        // A block is a keyframe unless its group references another block.
+        let block: { start: number; end: number } | null = null;
+        let hasReference = false;
+        for (let child = dataStart; child < dataEnd;) {
+          const childId = readVint(bytes, child, true);
+          const childSize = readVint(bytes, child + childId.length, false);
+          const childStart = child + childId.length + childSize.length;
+          if (childId.value === BLOCK) block = { start: childStart, end: childStart + childSize.value };
+          if (childId.value === REFERENCE_BLOCK) hasReference = true;
+          child = childStart + childSize.value;
+        }
+        if (block) readBlock(block.start, block.end, !hasReference);
+        break;
+      }
+    }
+
+    offset = dataEnd;
+  }
+
+  const videoTrack = tracks.find(track => track.type === VIDEO_TRACK_TYPE);
+  if (!videoTrack || videoTrack.number === undefined) {
+    throw new Error('WebM file has no video track.');
+  }
+
+  const samples: EncodedSample[] = blocks
+    .filter(block => block.trackNumber === videoTrack.number)
+    .map(block => ({
+      timestamp: Math.max(0, Math.round((block.timecode * timecodeScale) / 1000)),
+      isKey: block.isKey,
+      data: block.data,
+    }));
+
+  if (samples.length === 0) {
+    throw new Error('WebM video track has no frames.');
+  }
+
+  return {
+    ...getCodecConfig(videoTrack),
+    codedWidth: videoTrack.width ?? 0,
+    codedHeight: videoTrack.height ?? 0,
+    samples,
+  };
+};